@@ -1,6 +1,7 @@
 import dotenv from "dotenv";
 import brokerService from "./services/broker.service";
 import uploaderService from "./services/uploader.service";
+import heartbeatService from "./services/heartbeat.service";
 import logger from "./utils/logger";
 import os from "os";
 import path from "path";
@@ -17,6 +18,13 @@ if (!clientId) {
   process.exit(1);
 }
 
+// Presigned URLs for any other host are refused, so without it no upload
+// could ever go out
+if (!process.env.STORAGE_ALLOWED_HOSTS) {
+  logger.error("STORAGE_ALLOWED_HOSTS environment variable is required");
+  process.exit(1);
+}
+
 async function startClient() {
   try {
     logger.info(`Starting client: ${clientId!}`);
@@ -25,14 +33,31 @@ async function startClient() {
     // Connect to broker
     await brokerService.connect();
 
-    // Subscribe to commands
+    // Subscribe to commands; each is acknowledged once it has been handled
     await brokerService.subscribeToCommands(clientId!, (command) => {
       logger.info(`Received command: ${command.cmd}`, {
-        downloadId: command.downloadId,
+        ...("downloadId" in command
+          ? { downloadId: command.downloadId }
+          : { requestId: command.requestId }),
       });
-      uploaderService.handleUploadCommand(command, filePath);
+
+      switch (command.cmd) {
+        case "upload":
+          return uploaderService.handleUploadCommand(command, filePath);
+        case "cancel":
+          return uploaderService.handleCancelCommand(command);
+        case "list_files":
+          return uploaderService.handleListFilesCommand(command, filePath);
+        case "url_refresh":
+          return uploaderService.handleUrlRefreshCommand(command);
+        default:
+          logger.warn(`Ignoring unknown command: ${(command as any).cmd}`);
+      }
     });
 
+    // Register with the server and keep reporting liveness
+    await heartbeatService.start(clientId!, filePath);
+
     logger.info(`Client ${clientId!} is ready and listening for commands`);
   } catch (error) {
     logger.error("Failed to start client:", error);
@@ -43,12 +68,14 @@ async function startClient() {
 // Graceful shutdown
 process.on("SIGTERM", async () => {
   logger.info("SIGTERM received, shutting down gracefully...");
+  await heartbeatService.stop(clientId!, filePath);
   await brokerService.disconnect();
   process.exit(0);
 });
 
 process.on("SIGINT", async () => {
   logger.info("SIGINT received, shutting down gracefully...");
+  await heartbeatService.stop(clientId!, filePath);
   await brokerService.disconnect();
   process.exit(0);
 });
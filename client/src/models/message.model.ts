@@ -0,0 +1,155 @@
+// Commands (server → client) and events (client → server) exchanged
+// through the broker
+
+export interface MultipartUpload {
+  uploadId: string;
+  partSize: number;
+  parts: { partNumber: number; url: string }[];
+}
+
+// Which file to upload; absent means the configured FILE_PATH
+export interface FileSelector {
+  path?: string;
+  name?: string;
+}
+
+export type ArchiveCompression = "none" | "gzip" | "zstd";
+
+export type UploadCompression = "gzip" | "brotli" | "zstd";
+
+// Directories and/or glob patterns to pack into one tar archive
+export interface ArchiveSpec {
+  paths: string[];
+  compression: ArchiveCompression;
+}
+
+export interface ManifestEntry {
+  path: string;
+  size: number;
+  mtime: string;
+  sha256: string;
+}
+
+export interface UploadCommand {
+  cmd: "upload";
+  downloadId: string;
+  objectKey: string;
+  presignedUrl: string;
+  expiresAt: string;
+  file?: FileSelector;
+  archive?: ArchiveSpec;
+  compression?: UploadCompression;
+  // PEM public key of the recipient; the upload is encrypted for it
+  encryption?: { publicKey: string };
+  multipart?: MultipartUpload;
+  meta?: any;
+}
+
+export interface CancelCommand {
+  cmd: "cancel";
+  downloadId: string;
+  reason?: string;
+}
+
+// Asks for the files this agent may upload; answered with a file_list event
+export interface ListFilesCommand {
+  cmd: "list_files";
+  requestId: string;
+  expiresAt: string;
+  hash: boolean;
+}
+
+// Reply to a url_refresh event
+export interface UrlRefreshCommand {
+  cmd: "url_refresh";
+  requestId: string;
+  downloadId: string;
+  presignedUrl?: string;
+  expiresAt?: string;
+  parts?: { partNumber: number; url: string }[];
+  error?: string;
+}
+
+// Added by the server to every command; covered by the signature
+interface CommandEnvelope {
+  clientId?: string;
+  nonce?: string;
+  issuedAt?: string;
+}
+
+export type AgentCommand = (
+  UploadCommand | CancelCommand | ListFilesCommand | UrlRefreshCommand
+) &
+  CommandEnvelope;
+
+export interface UploadEvent {
+  event: "upload_complete" | "upload_failed";
+  downloadId: string;
+  objectKey: string;
+  size?: number;
+  sha256?: string;
+  parts?: { partNumber: number; etag: string }[];
+  manifest?: ManifestEntry[];
+  originalSize?: number;
+  originalSha256?: string;
+  status?: "ok";
+  reason?: string;
+  timestamp: string;
+}
+
+export interface UploadProgressEvent {
+  event: "upload_progress";
+  downloadId: string;
+  objectKey: string;
+  bytesSent: number;
+  totalBytes: number;
+  throughputBps: number;
+  attempt: number;
+  timestamp: string;
+}
+
+// Asks the server to re-sign the URLs of a pending upload
+export interface UrlRefreshEvent {
+  event: "url_refresh";
+  requestId: string;
+  downloadId: string;
+  objectKey: string;
+  partNumbers?: number[];
+  timestamp: string;
+}
+
+export interface HeartbeatEvent {
+  event: "agent_register" | "agent_heartbeat" | "agent_offline";
+  clientId: string;
+  version: string;
+  hostname: string;
+  filePath: string;
+  fileSize?: number;
+  fileMtime?: string;
+  tags?: Record<string, string>;
+  timestamp: string;
+}
+
+export interface CatalogFile {
+  path: string;
+  name?: string;
+  size: number;
+  mtime: string;
+  sha256?: string;
+}
+
+export interface FileListEvent {
+  event: "file_list";
+  requestId: string;
+  files: CatalogFile[];
+  truncated: boolean;
+  error?: string;
+  timestamp: string;
+}
+
+export type AgentEvent =
+  | UploadEvent
+  | UploadProgressEvent
+  | UrlRefreshEvent
+  | HeartbeatEvent
+  | FileListEvent;
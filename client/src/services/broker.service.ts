@@ -1,33 +1,37 @@
 import { createClient, RedisClientType } from "redis";
 import logger from "../utils/logger";
+import { recordNonce } from "../utils/nonce-store";
+import { createNonce, signPayload, verifyPayload } from "../utils/signing";
+import { AgentCommand, AgentEvent } from "../models/message.model";
 
-interface UploadCommand {
-  cmd: "upload";
-  downloadId: string;
-  objectKey: string;
-  presignedUrl: string;
-  expiresAt: string;
-  meta?: any;
-}
-
-interface UploadEvent {
-  event: "upload_complete" | "upload_failed";
-  downloadId: string;
-  objectKey: string;
-  size?: number;
-  sha256?: string;
-  status?: "ok";
-  reason?: string;
-  timestamp: string;
-}
+// Commands may be this far ahead of the agent clock
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
 
 class BrokerService {
   private subscriber: RedisClientType;
   private publisher: RedisClientType;
   private isConnected: boolean = false;
+  private consumerGroup: string;
+  private blockMs: number = 5000;
+  private clientId: string;
+  // Shared with the server; when set, commands must be signed with it and
+  // events are signed with it
+  private secret: string | undefined;
+  private commandMaxAgeMs: number;
 
   constructor() {
     const redisUrl = process.env.REDIS_URL || "redis://localhost:6379";
+    this.consumerGroup = process.env.COMMAND_CONSUMER_GROUP || "agent";
+    this.clientId = process.env.CLIENT_ID || "";
+    this.secret = process.env.AGENT_SECRET || undefined;
+    this.commandMaxAgeMs =
+      parseInt(process.env.COMMAND_MAX_AGE_SEC || "86400", 10) * 1000;
+
+    if (!this.secret) {
+      logger.warn(
+        "AGENT_SECRET not configured: commands are not verified and events are not signed",
+      );
+    }
 
     this.subscriber = createClient({ url: redisUrl });
     this.publisher = createClient({ url: redisUrl });
@@ -54,55 +58,241 @@ class BrokerService {
 
   async disconnect(): Promise<void> {
     try {
+      // Stop the command consumer loop before closing its connection
+      this.isConnected = false;
       await this.subscriber.quit();
       await this.publisher.quit();
-      this.isConnected = false;
       logger.info("BrokerService disconnected from Redis");
     } catch (error) {
       logger.error("Error disconnecting from Redis:", error);
     }
   }
 
+  /**
+   * Consumes commands from the client's stream (`commands:<clientId>`)
+   * through a consumer group. Entries delivered before a restart but never
+   * acknowledged are replayed first; each entry is acknowledged only after
+   * the callback has finished handling it.
+   */
   async subscribeToCommands(
     clientId: string,
-    callback: (command: UploadCommand) => void,
+    callback: (command: AgentCommand) => Promise<void> | void,
   ): Promise<void> {
     if (!this.isConnected) {
       throw new Error("BrokerService not connected");
     }
 
     try {
-      const channel = `commands:${clientId}`;
+      const stream = `commands:${clientId}`;
 
-      await this.subscriber.subscribe(channel, (message) => {
-        try {
-          const command = JSON.parse(message) as UploadCommand;
-          logger.debug(`Received command from ${channel}`, {
-            cmd: command.cmd,
-          });
-          callback(command);
-        } catch (error) {
-          logger.error("Error parsing command message:", error);
-        }
+      await this.ensureConsumerGroup(stream);
+
+      this.consumeCommands(stream, clientId, callback).catch((error) => {
+        logger.error(`Command consumer for ${stream} stopped:`, error);
       });
 
-      logger.info(`Subscribed to ${channel}`);
+      logger.info(`Subscribed to ${stream}`, { group: this.consumerGroup });
     } catch (error) {
       logger.error("Error subscribing to commands:", error);
       throw error;
     }
   }
 
-  async publishEvent(event: UploadEvent): Promise<void> {
+  private async ensureConsumerGroup(stream: string): Promise<void> {
+    try {
+      await this.subscriber.xGroupCreate(stream, this.consumerGroup, "0", {
+        MKSTREAM: true,
+      });
+      logger.info(`Created consumer group ${this.consumerGroup} on ${stream}`);
+    } catch (error) {
+      // BUSYGROUP means the group already exists, which is the normal case
+      if (!(error instanceof Error && error.message.includes("BUSYGROUP"))) {
+        throw error;
+      }
+    }
+  }
+
+  private async consumeCommands(
+    stream: string,
+    consumer: string,
+    callback: (command: AgentCommand) => Promise<void> | void,
+  ): Promise<void> {
+    // Until caught up, read this consumer's pending (delivered but unacked)
+    // entries after `cursor`; then switch to ">" for never-delivered ones
+    let cursor = "0";
+
+    while (this.isConnected) {
+      try {
+        const replaying = cursor !== ">";
+        const reply = await this.subscriber.xReadGroup(
+          this.consumerGroup,
+          consumer,
+          { key: stream, id: cursor },
+          { COUNT: 10, BLOCK: replaying ? undefined : this.blockMs },
+        );
+
+        const messages = reply?.[0]?.messages || [];
+
+        if (replaying) {
+          if (messages.length === 0) {
+            cursor = ">";
+            continue;
+          }
+          logger.info(`Replaying ${messages.length} pending command(s)`, {
+            stream,
+          });
+          cursor = messages[messages.length - 1].id;
+        }
+
+        for (const { id, message } of messages) {
+          this.dispatchCommand(
+            stream,
+            id,
+            message?.payload,
+            message?.signature,
+            callback,
+          );
+        }
+      } catch (error) {
+        if (!this.isConnected) {
+          break;
+        }
+        logger.error(`Error reading commands from ${stream}:`, error);
+        if (error instanceof Error && error.message.includes("NOGROUP")) {
+          await this.ensureConsumerGroup(stream).catch(() => undefined);
+        }
+        await new Promise((resolve) => setTimeout(resolve, this.blockMs));
+      }
+    }
+  }
+
+  private dispatchCommand(
+    stream: string,
+    entryId: string,
+    payload: string | undefined,
+    signature: string | undefined,
+    callback: (command: AgentCommand) => Promise<void> | void,
+  ): void {
+    let command: AgentCommand;
+    try {
+      command = JSON.parse(payload || "") as AgentCommand;
+    } catch (error) {
+      logger.error("Error parsing command message:", error);
+      // A malformed entry will never parse; ack it so it is not replayed
+      this.ackCommand(stream, entryId);
+      return;
+    }
+
+    logger.debug(`Received command from ${stream}`, {
+      cmd: command.cmd,
+      entryId,
+    });
+
+    // Rejected commands are acknowledged too; they will never become valid
+    this.checkCommand(entryId, payload || "", signature, command)
+      .then((rejection) => {
+        if (rejection) {
+          logger.warn(`Rejected command ${entryId}: ${rejection}`, {
+            cmd: command.cmd,
+          });
+          return;
+        }
+        return callback(command);
+      })
+      .catch((error) => {
+        logger.error(`Error handling command ${entryId}:`, error);
+      })
+      .finally(() => this.ackCommand(stream, entryId));
+  }
+
+  /**
+   * Without AGENT_SECRET every command is accepted. Otherwise a command
+   * must carry a valid signature, be addressed to this agent, be no older
+   * than COMMAND_MAX_AGE_SEC and use a nonce not seen under another stream
+   * entry. Returns why a command is rejected, or null.
+   */
+  private async checkCommand(
+    entryId: string,
+    payload: string,
+    signature: string | undefined,
+    command: AgentCommand,
+  ): Promise<string | null> {
+    if (!this.secret) {
+      return null;
+    }
+    if (!verifyPayload(payload, signature, this.secret)) {
+      return "missing or invalid signature";
+    }
+    if (command.clientId !== this.clientId) {
+      return `addressed to ${command.clientId}`;
+    }
+
+    const issuedAt = new Date(command.issuedAt || "").getTime();
+    const now = Date.now();
+    if (Number.isNaN(issuedAt) || issuedAt < now - this.commandMaxAgeMs) {
+      return "too old or undated";
+    }
+    if (issuedAt > now + MAX_CLOCK_SKEW_MS) {
+      return "issued in the future";
+    }
+
+    if (
+      !command.nonce ||
+      !(await recordNonce(
+        command.nonce,
+        entryId,
+        command.issuedAt!,
+        this.commandMaxAgeMs + MAX_CLOCK_SKEW_MS,
+      ))
+    ) {
+      return "replayed nonce";
+    }
+
+    return null;
+  }
+
+  private ackCommand(stream: string, entryId: string): void {
+    if (!this.isConnected) {
+      // Left pending; it will be replayed after reconnecting
+      return;
+    }
+
+    this.publisher
+      .xAck(stream, this.consumerGroup, entryId)
+      .catch((error) =>
+        logger.error(`Error acknowledging command ${entryId}:`, error),
+      );
+  }
+
+  async publishEvent(event: AgentEvent): Promise<void> {
     if (!this.isConnected) {
       throw new Error("BrokerService not connected");
     }
 
     try {
       const channel = "events:server";
-      const message = JSON.stringify(event);
+      const stamped = JSON.stringify({
+        ...event,
+        clientId: this.clientId,
+        nonce: createNonce(),
+        issuedAt: new Date().toISOString(),
+      });
+      const message = this.secret
+        ? JSON.stringify({
+            clientId: this.clientId,
+            payload: stamped,
+            signature: signPayload(stamped, this.secret),
+          })
+        : stamped;
       await this.publisher.publish(channel, message);
-      logger.info(`Published event to ${channel}`, { event: event.event });
+      // Heartbeats and progress are frequent; keep them out of the info log
+      const level =
+        event.event === "agent_heartbeat" || event.event === "upload_progress"
+          ? "debug"
+          : "info";
+      logger.log(level, `Published event to ${channel}`, {
+        event: event.event,
+      });
     } catch (error) {
       logger.error("Error publishing event:", error);
       throw error;
@@ -0,0 +1,89 @@
+import fs from "fs";
+import os from "os";
+import brokerService from "./broker.service";
+import logger from "../utils/logger";
+import { HeartbeatEvent } from "../models/message.model";
+
+class HeartbeatService {
+  private timer: NodeJS.Timeout | null = null;
+  private intervalMs: number;
+  private version: string;
+  // From CLIENT_TAGS (`key=value` pairs); lets the server select this agent
+  private tags: Record<string, string>;
+
+  constructor() {
+    this.intervalMs =
+      parseInt(process.env.HEARTBEAT_INTERVAL_SEC || "10", 10) * 1000;
+    // npm exposes the package version when started through `npm start`
+    this.version =
+      process.env.AGENT_VERSION || process.env.npm_package_version || "unknown";
+    this.tags = Object.fromEntries(
+      (process.env.CLIENT_TAGS || "")
+        .split(",")
+        .map((entry) => entry.trim())
+        .filter(Boolean)
+        .map((entry) => {
+          const separator = entry.indexOf("=");
+          return [
+            entry.slice(0, separator).trim(),
+            entry.slice(separator + 1).trim(),
+          ];
+        })
+        .filter(([key, value]) => key && value),
+    );
+  }
+
+  async start(clientId: string, filePath: string): Promise<void> {
+    await this.send("agent_register", clientId, filePath);
+
+    this.timer = setInterval(() => {
+      this.send("agent_heartbeat", clientId, filePath);
+    }, this.intervalMs);
+
+    logger.info(`Heartbeat started (every ${this.intervalMs / 1000}s)`);
+  }
+
+  async stop(clientId: string, filePath: string): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    await this.send("agent_offline", clientId, filePath);
+  }
+
+  private async send(
+    type: HeartbeatEvent["event"],
+    clientId: string,
+    filePath: string,
+  ): Promise<void> {
+    try {
+      const event: HeartbeatEvent = {
+        event: type,
+        clientId,
+        version: this.version,
+        hostname: os.hostname(),
+        filePath,
+        tags: Object.keys(this.tags).length > 0 ? this.tags : undefined,
+        timestamp: new Date().toISOString(),
+      };
+
+      try {
+        const stats = await fs.promises.stat(filePath);
+        event.fileSize = stats.size;
+        event.fileMtime = stats.mtime.toISOString();
+      } catch (error) {
+        // A missing file is still worth reporting; the agent itself is alive
+        logger.debug(`Could not stat ${filePath} for heartbeat`);
+      }
+
+      await brokerService.publishEvent(event);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      logger.warn(`Error sending ${type}: ${errorMessage}`);
+    }
+  }
+}
+
+export default new HeartbeatService();
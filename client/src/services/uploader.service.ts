@@ -1,26 +1,121 @@
 import fs from "fs";
 import crypto from "crypto";
 import axios from "axios";
+import { PassThrough, Readable, Transform } from "stream";
+import { pipeline } from "stream/promises";
 import brokerService from "./broker.service";
 import logger from "../utils/logger";
+import { calculateSHA256, createHashingStream } from "../utils/checksum";
+import { ProgressTracker } from "../utils/progress";
+import {
+  archiveInputSize,
+  archiveSpoolPath,
+  buildArchive,
+  packArchive,
+} from "../utils/archive";
+import {
+  COMPRESSION_EXTENSIONS,
+  compressFile,
+  createCompressor,
+  spoolPath,
+} from "../utils/compression";
+import { createEncryptor, encryptFile } from "../utils/encryption";
+import { PartWriter } from "../utils/part-writer";
+import {
+  ArchiveSource,
+  collectArchiveFiles,
+  listAllowedFiles,
+  resolveRequestedFile,
+} from "../utils/file-access";
+import {
+  UploadState,
+  loadUploadState,
+  saveUploadState,
+  clearUploadState,
+} from "../utils/upload-state";
+import {
+  CancelCommand,
+  CatalogFile,
+  ListFilesCommand,
+  ManifestEntry,
+  MultipartUpload,
+  UploadCommand,
+  UrlRefreshCommand,
+} from "../models/message.model";
 
-interface UploadCommand {
-  cmd: "upload";
-  downloadId: string;
-  objectKey: string;
-  presignedUrl: string;
-  expiresAt: string;
-  meta?: any;
+// Streamed archives ask for URLs this many parts ahead of the current one
+const STREAM_URL_BATCH = 16;
+
+// How long a cancel for an upload that has not arrived yet is remembered
+const EARLY_CANCEL_TTL_MS = 60 * 60 * 1000;
+
+// Everything one upload needs, passed down through the upload helpers
+interface UploadContext {
+  command: UploadCommand;
+  signal: AbortSignal;
+  progress: ProgressTracker;
+  attempt: number;
+}
+
+interface UploadResult {
+  size: number;
+  sha256: string;
+  parts?: { partNumber: number; etag: string }[];
+  // Set by streamed uploads, which have no spooled copy to report on
+  manifest?: ManifestEntry[];
+  original?: { size: number; sha256: string };
 }
 
 class UploaderService {
-  private activeDownloads: Set<string> = new Set();
+  // Uploads in progress, with the controller used to cancel them
+  private activeDownloads: Map<string, AbortController> = new Map();
+  // Cancels handled before their upload command, by downloadId, with when
+  // they arrived; commands are checked concurrently, so order is not kept
+  private earlyCancels: Map<string, number> = new Map();
   private maxRetries: number = 5;
   private baseDelay: number = 1000; // 1 second
+  private partConcurrency: number = parseInt(
+    process.env.UPLOAD_CONCURRENCY || "4",
+    10,
+  );
+  private progressIntervalMs: number = parseInt(
+    process.env.PROGRESS_INTERVAL_MS || "2000",
+    10,
+  );
+  // URLs closer than this to expiry are refreshed before an attempt
+  private urlRefreshMarginMs: number =
+    parseInt(process.env.URL_REFRESH_MARGIN_SEC || "60", 10) * 1000;
+  private urlRefreshTimeoutMs: number = parseInt(
+    process.env.URL_REFRESH_TIMEOUT_MS || "30000",
+    10,
+  );
+  // Uploads (including packing/compression) run at most this many at once;
+  // 0 for no limit
+  private maxConcurrentUploads: number = parseInt(
+    process.env.MAX_CONCURRENT_UPLOADS || "2",
+    10,
+  );
+  private runningUploads: number = 0;
+  // Uploads waiting for a free slot, oldest first
+  private slotWaiters: (() => void)[] = [];
+  // URL refreshes in progress, by downloadId; parallel parts share one
+  private activeRefreshes: Map<string, Promise<void>> = new Map();
+  // url_refresh requests waiting for the server's reply, by requestId
+  private pendingRefreshes: Map<
+    string,
+    (reply: UrlRefreshCommand | null) => void
+  > = new Map();
+  // host or host:port entries; presigned URLs elsewhere are refused
+  private allowedStorageHosts: string[] = (
+    process.env.STORAGE_ALLOWED_HOSTS || ""
+  )
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
 
   async handleUploadCommand(
     command: UploadCommand,
-    filePath: string,
+    defaultFilePath: string,
   ): Promise<void> {
     const { downloadId, objectKey, presignedUrl, expiresAt } = command;
 
@@ -40,29 +135,164 @@ class UploaderService {
       return;
     }
 
-    // Check if presigned URL is expired
-    const expiresDate = new Date(expiresAt);
-    if (expiresDate < new Date()) {
-      logger.error(`Presigned URL expired for ${downloadId}`);
+    if (this.earlyCancels.delete(downloadId)) {
+      logger.info(`Upload cancelled for ${downloadId} before it arrived`);
+      return;
+    }
+
+    // Mark as active before the first await, so a cancel that arrives
+    // meanwhile finds the upload; it also reaches uploads waiting for a slot
+    const controller = new AbortController();
+    this.activeDownloads.set(downloadId, controller);
+
+    // Never send the file anywhere but the configured storage
+    const urls = [
+      presignedUrl,
+      ...(command.multipart?.parts.map((p) => p.url) || []),
+    ];
+    const foreignUrl = urls.find((url) => !this.isAllowedStorageUrl(url));
+    if (foreignUrl) {
+      logger.error(`Refusing upload for ${downloadId} to untrusted host`, {
+        url: foreignUrl.split("?")[0],
+      });
       await this.publishFailedEvent(
         downloadId,
         objectKey,
-        "Presigned URL expired",
+        "Presigned URL points at a host not in STORAGE_ALLOWED_HOSTS",
       );
+      this.activeDownloads.delete(downloadId);
       return;
     }
 
-    // Mark as active
-    this.activeDownloads.add(downloadId);
+    // A command that arrived late gets fresh URLs instead of failing
+    if (new Date(expiresAt) < new Date()) {
+      logger.warn(`Presigned URL expired for ${downloadId}, refreshing`);
+      try {
+        await this.refreshUrls(command);
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown error";
+        logger.error(`Presigned URL expired for ${downloadId}`, {
+          refresh: errorMessage,
+        });
+        await this.publishFailedEvent(
+          downloadId,
+          objectKey,
+          `Presigned URL expired: ${errorMessage}`,
+        );
+        this.activeDownloads.delete(downloadId);
+        return;
+      }
+    }
 
+    // Resolve what to upload once; a rejected path is not worth retrying.
+    // Archives, and files to compress or encrypt, are streamed into the
+    // multipart upload when the server opened one. Without one, archives
+    // and compressed copies are built at filePath before uploading, then
+    // encrypted into a separate spool file if requested.
+    let filePath: string;
+    let sourcePath: string | undefined;
+    let sources: ArchiveSource[] | undefined;
     try {
-      logger.info(`Starting upload for ${downloadId}`, { objectKey });
+      if (command.archive) {
+        sources = await collectArchiveFiles(command.archive.paths);
+        filePath = archiveSpoolPath(downloadId, command.archive.compression);
+      } else {
+        sourcePath = await resolveRequestedFile(command.file, defaultFilePath);
+        filePath = command.compression
+          ? spoolPath(downloadId, COMPRESSION_EXTENSIONS[command.compression])
+          : sourcePath;
+      }
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      logger.error(`Rejected file for ${downloadId}: ${errorMessage}`);
+      await this.publishFailedEvent(downloadId, objectKey, errorMessage);
+      this.activeDownloads.delete(downloadId);
+      return;
+    }
 
-      const result = await this.uploadFileWithRetry(
-        presignedUrl,
-        filePath,
-        downloadId,
-      );
+    if (!(await this.acquireUploadSlot(downloadId, controller.signal))) {
+      this.activeDownloads.delete(downloadId);
+      logger.info(`Upload cancelled for ${downloadId} before it started`);
+      return;
+    }
+
+    try {
+      const { multipart } = command;
+      const archiveSources = sources;
+      let result: UploadResult;
+      let manifest: ManifestEntry[] | undefined;
+      let original: { size: number; sha256: string } | undefined;
+
+      if (command.archive && multipart && archiveSources) {
+        logger.info(
+          `Streaming ${archiveSources.length} files for ${downloadId}`,
+        );
+        result = await this.uploadWithRetry(command, controller.signal, (ctx) =>
+          this.streamArchive(ctx, archiveSources, multipart),
+        );
+        manifest = result.manifest;
+        original = result.original;
+      } else if (
+        multipart &&
+        sourcePath &&
+        (command.compression || command.encryption)
+      ) {
+        const streamedPath = sourcePath;
+        logger.info(`Streaming ${streamedPath} for ${downloadId}`, {
+          compression: command.compression,
+          encrypted: Boolean(command.encryption),
+        });
+        result = await this.uploadWithRetry(command, controller.signal, (ctx) =>
+          this.streamFile(ctx, streamedPath, multipart),
+        );
+        original = result.original;
+      } else {
+        if (command.archive && sources) {
+          logger.info(`Packing ${sources.length} files for ${downloadId}`);
+          manifest = await buildArchive(
+            filePath,
+            sources,
+            command.archive.compression,
+            controller.signal,
+          );
+        } else if (command.compression && sourcePath) {
+          logger.info(`Compressing ${sourcePath} with ${command.compression}`);
+          original = await compressFile(
+            sourcePath,
+            filePath,
+            command.compression,
+            controller.signal,
+          );
+        }
+
+        // Encrypt last, so storage only ever sees ciphertext
+        if (command.encryption) {
+          const encryptedPath = spoolPath(downloadId, ".enc");
+          const plain = await encryptFile(
+            filePath,
+            encryptedPath,
+            command.encryption.publicKey,
+            controller.signal,
+          );
+          if (filePath !== sourcePath) {
+            await fs.promises.rm(filePath, { force: true });
+          }
+          filePath = encryptedPath;
+          original = original || plain;
+        }
+
+        logger.info(`Starting upload for ${downloadId}`, {
+          objectKey,
+          filePath,
+        });
+
+        const uploadPath = filePath;
+        result = await this.uploadWithRetry(command, controller.signal, (ctx) =>
+          this.uploadFile(ctx, uploadPath),
+        );
+      }
 
       // Publish success event
       await brokerService.publishEvent({
@@ -71,6 +301,10 @@ class UploaderService {
         objectKey,
         size: result.size,
         sha256: result.sha256,
+        parts: result.parts,
+        manifest,
+        originalSize: original?.size,
+        originalSha256: original?.sha256,
         status: "ok",
         timestamp: new Date().toISOString(),
       });
@@ -80,6 +314,12 @@ class UploaderService {
         sha256: result.sha256,
       });
     } catch (error) {
+      if (controller.signal.aborted) {
+        // The server already marked the download cancelled
+        logger.info(`Upload cancelled for ${downloadId}`);
+        return;
+      }
+
       const errorMessage =
         error instanceof Error ? error.message : "Unknown error";
       logger.error(`Upload failed for ${downloadId}: ${errorMessage}`, {
@@ -88,23 +328,227 @@ class UploaderService {
       await this.publishFailedEvent(downloadId, objectKey, errorMessage);
     } finally {
       this.activeDownloads.delete(downloadId);
+      this.releaseUploadSlot();
+      // The server completes or aborts the multipart upload on our event
+      await clearUploadState(downloadId).catch(() => undefined);
+      if (filePath !== sourcePath) {
+        await fs.promises.rm(filePath, { force: true }).catch(() => undefined);
+      }
     }
   }
 
-  private async uploadFileWithRetry(
-    presignedUrl: string,
-    filePath: string,
-    downloadId: string,
-  ): Promise<{ size: number; sha256: string }> {
+  handleCancelCommand(command: CancelCommand): void {
+    const controller = this.activeDownloads.get(command.downloadId);
+
+    if (!controller) {
+      // Its upload command may still be on its way; otherwise it already
+      // finished and the entry just expires
+      logger.info(
+        `No upload in progress for ${command.downloadId}, remembering cancel`,
+      );
+      const now = Date.now();
+      this.earlyCancels.forEach((at, downloadId) => {
+        if (now - at > EARLY_CANCEL_TTL_MS)
+          this.earlyCancels.delete(downloadId);
+      });
+      this.earlyCancels.set(command.downloadId, now);
+      return;
+    }
+
+    logger.info(`Cancelling upload for ${command.downloadId}`, {
+      reason: command.reason,
+    });
+    controller.abort();
+  }
+
+  async handleListFilesCommand(
+    command: ListFilesCommand,
+    defaultFilePath: string,
+  ): Promise<void> {
+    const { requestId } = command;
+
+    // The server gives up waiting at expiresAt; a replayed request is stale
+    if (new Date(command.expiresAt) < new Date()) {
+      logger.info(`Skipping expired file list request ${requestId}`);
+      return;
+    }
+
+    let reply: { files: CatalogFile[]; truncated: boolean; error?: string };
+    try {
+      reply = await listAllowedFiles(defaultFilePath, command.hash);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      logger.error(`Listing files failed: ${errorMessage}`);
+      reply = { files: [], truncated: false, error: errorMessage };
+    }
+
+    await brokerService.publishEvent({
+      event: "file_list",
+      requestId,
+      ...reply,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  handleUrlRefreshCommand(command: UrlRefreshCommand): void {
+    const resolve = this.pendingRefreshes.get(command.requestId);
+
+    if (!resolve) {
+      // Replayed after a restart, or the request already timed out
+      logger.info(`Ignoring stale url_refresh reply ${command.requestId}`);
+      return;
+    }
+
+    resolve(command);
+  }
+
+  /**
+   * Refreshes the command's URLs when they expire within
+   * URL_REFRESH_MARGIN_SEC, or unconditionally with `force`. Callers
+   * uploading parts of the same download share one request.
+   */
+  private async ensureFreshUrls(
+    command: UploadCommand,
+    partNumbers?: number[],
+    force: boolean = false,
+  ): Promise<void> {
+    const { downloadId } = command;
+    let refresh = this.activeRefreshes.get(downloadId);
+
+    if (!refresh) {
+      if (
+        !force &&
+        new Date(command.expiresAt).getTime() - Date.now() >=
+          this.urlRefreshMarginMs
+      ) {
+        return;
+      }
+      refresh = this.refreshUrls(command, partNumbers).finally(() =>
+        this.activeRefreshes.delete(downloadId),
+      );
+      this.activeRefreshes.set(downloadId, refresh);
+    }
+
+    await refresh;
+  }
+
+  /**
+   * Asks the server to re-sign the command's URLs (the single PUT URL and
+   * `partNumbers`, by default every part) and swaps them in. Throws when
+   * the server refuses (the download is no longer pending), returns a URL
+   * outside STORAGE_ALLOWED_HOSTS or does not reply within
+   * URL_REFRESH_TIMEOUT_MS.
+   */
+  private async refreshUrls(
+    command: UploadCommand,
+    partNumbers?: number[],
+  ): Promise<void> {
+    const { downloadId, objectKey, multipart } = command;
+    const requestId = crypto.randomUUID();
+
+    const reply = new Promise<UrlRefreshCommand | null>((resolve) => {
+      const timer = setTimeout(() => resolve(null), this.urlRefreshTimeoutMs);
+      this.pendingRefreshes.set(requestId, (command) => {
+        clearTimeout(timer);
+        resolve(command);
+      });
+    });
+
+    let refreshed: UrlRefreshCommand | null;
+    try {
+      await brokerService.publishEvent({
+        event: "url_refresh",
+        requestId,
+        downloadId,
+        objectKey,
+        partNumbers: partNumbers || multipart?.parts.map((p) => p.partNumber),
+        timestamp: new Date().toISOString(),
+      });
+      refreshed = await reply;
+    } finally {
+      this.pendingRefreshes.delete(requestId);
+    }
+
+    if (!refreshed) {
+      throw new Error("Server did not answer the URL refresh request");
+    }
+    if (refreshed.error || !refreshed.presignedUrl || !refreshed.expiresAt) {
+      throw new Error(refreshed.error || "Server sent no URL");
+    }
+
+    const urls = [
+      refreshed.presignedUrl,
+      ...(refreshed.parts?.map((p) => p.url) || []),
+    ];
+    if (!urls.every((url) => this.isAllowedStorageUrl(url))) {
+      throw new Error(
+        "Refreshed URL points at a host not in STORAGE_ALLOWED_HOSTS",
+      );
+    }
+
+    command.presignedUrl = refreshed.presignedUrl;
+    command.expiresAt = refreshed.expiresAt;
+    if (multipart && refreshed.parts) {
+      const byNumber = new Map(multipart.parts.map((p) => [p.partNumber, p]));
+      for (const part of refreshed.parts) {
+        byNumber.set(part.partNumber, part);
+      }
+      multipart.parts = Array.from(byNumber.values()).sort(
+        (a, b) => a.partNumber - b.partNumber,
+      );
+    }
+
+    logger.info(`Refreshed presigned URLs for ${downloadId}`, {
+      expiresAt: refreshed.expiresAt,
+    });
+  }
+
+  private async uploadWithRetry(
+    command: UploadCommand,
+    signal: AbortSignal,
+    upload: (ctx: UploadContext) => Promise<UploadResult>,
+  ): Promise<UploadResult> {
+    const { downloadId, objectKey } = command;
     let lastError: Error | null = null;
 
+    const progress = new ProgressTracker((snapshot) => {
+      brokerService
+        .publishEvent({
+          event: "upload_progress",
+          downloadId,
+          objectKey,
+          ...snapshot,
+          timestamp: new Date().toISOString(),
+        })
+        .catch(() => {
+          // Progress is best effort; never fail the upload over it
+        });
+    }, this.progressIntervalMs);
+
     for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
+      // Building the upload or backing off may have outlived the URLs. A
+      // failed refresh ends the upload; retrying can't make the URLs valid.
+      try {
+        await this.ensureFreshUrls(command);
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown error";
+        throw new Error(`Presigned URL expired: ${errorMessage}`);
+      }
+
       try {
         logger.debug(
           `Upload attempt ${attempt}/${this.maxRetries} for ${downloadId}`,
         );
-        return await this.uploadFile(presignedUrl, filePath);
+        const result = await upload({ command, signal, progress, attempt });
+        progress.flush();
+        return result;
       } catch (error) {
+        if (signal.aborted) {
+          throw new Error("Upload cancelled");
+        }
+
         lastError = error instanceof Error ? error : new Error("Unknown error");
         logger.warn(
           `Upload attempt ${attempt} failed for ${downloadId}: ${lastError.message}`,
@@ -114,7 +558,10 @@ class UploaderService {
         if (attempt < this.maxRetries) {
           const delay = this.baseDelay * Math.pow(2, attempt - 1); // Exponential backoff
           logger.info(`Retrying in ${delay}ms...`);
-          await this.sleep(delay);
+          await this.sleep(delay, signal);
+          if (signal.aborted) {
+            throw new Error("Upload cancelled");
+          }
         }
       }
     }
@@ -125,9 +572,11 @@ class UploaderService {
   }
 
   private async uploadFile(
-    presignedUrl: string,
+    ctx: UploadContext,
     filePath: string,
-  ): Promise<{ size: number; sha256: string }> {
+  ): Promise<UploadResult> {
+    const { command } = ctx;
+
     // Verify file exists
     if (!fs.existsSync(filePath)) {
       throw new Error(`File not found: ${filePath}`);
@@ -135,7 +584,27 @@ class UploaderService {
 
     // Get file stats
     const stats = fs.statSync(filePath);
-    const size = stats.size;
+
+    const { multipart } = command;
+    if (multipart && stats.size > 0) {
+      const partCount = Math.ceil(stats.size / multipart.partSize);
+      if (partCount <= multipart.parts.length) {
+        return this.uploadMultipart(ctx, filePath, multipart);
+      }
+      logger.warn(
+        `File needs ${partCount} parts but only ${multipart.parts.length} were presigned, using single upload`,
+      );
+    }
+
+    return this.uploadSingle(ctx, filePath, stats.size);
+  }
+
+  private async uploadSingle(
+    ctx: UploadContext,
+    filePath: string,
+    size: number,
+  ): Promise<UploadResult> {
+    const { progress } = ctx;
 
     // Create hash instance
     const hash = crypto.createHash("sha256");
@@ -143,9 +612,12 @@ class UploaderService {
     // Create read stream
     const fileStream = fs.createReadStream(filePath);
 
-    // Update hash as data flows
+    progress.startAttempt(ctx.attempt, size);
+
+    // Update hash and progress as data flows
     fileStream.on("data", (chunk) => {
       hash.update(chunk);
+      progress.add(chunk.length);
     });
 
     // Upload with streaming
@@ -153,14 +625,19 @@ class UploaderService {
       `Uploading file (${size} bytes) with streaming hash calculation...`,
     );
 
-    await axios.put(presignedUrl, fileStream, {
-      headers: {
-        "Content-Type": "application/octet-stream",
-        "Content-Length": size,
-      },
-      maxBodyLength: Infinity,
-      maxContentLength: Infinity,
-    });
+    try {
+      await axios.put(ctx.command.presignedUrl, fileStream, {
+        headers: {
+          "Content-Type": "application/octet-stream",
+          "Content-Length": size,
+        },
+        maxBodyLength: Infinity,
+        maxContentLength: Infinity,
+        signal: ctx.signal,
+      });
+    } finally {
+      fileStream.destroy();
+    }
 
     const sha256 = hash.digest("hex");
     logger.debug(`Upload complete. SHA256: ${sha256}`);
@@ -168,6 +645,358 @@ class UploaderService {
     return { size, sha256 };
   }
 
+  /**
+   * Uploads the file in parts, several at a time. Completed parts are
+   * recorded in a state file so that retries, and a restart that replays
+   * the command, only send the parts that are still missing.
+   */
+  private async uploadMultipart(
+    ctx: UploadContext,
+    filePath: string,
+    multipart: MultipartUpload,
+  ): Promise<UploadResult> {
+    const { downloadId } = ctx.command;
+    const stats = fs.statSync(filePath);
+    const { uploadId, partSize } = multipart;
+
+    let state = await loadUploadState(downloadId);
+    if (
+      !state ||
+      state.uploadId !== uploadId ||
+      state.fileSize !== stats.size ||
+      state.fileMtime !== stats.mtime.toISOString() ||
+      state.partSize !== partSize
+    ) {
+      state = {
+        downloadId,
+        uploadId,
+        fileSize: stats.size,
+        fileMtime: stats.mtime.toISOString(),
+        partSize,
+        completedParts: [],
+      };
+    }
+
+    const partCount = Math.ceil(stats.size / partSize);
+    const done = new Set(state.completedParts.map((p) => p.partNumber));
+    const missing = multipart.parts.filter(
+      (p) => p.partNumber <= partCount && !done.has(p.partNumber),
+    );
+
+    logger.info(
+      `Multipart upload: ${partCount} parts, ${partCount - missing.length} already uploaded`,
+      { downloadId, uploadId },
+    );
+
+    const uploadedBytes = state.completedParts.reduce(
+      (sum, p) => sum + this.partLength(state!, p.partNumber),
+      0,
+    );
+    ctx.progress.startAttempt(ctx.attempt, stats.size, uploadedBytes);
+
+    await this.runWithConcurrency(missing, this.partConcurrency, (part) =>
+      this.uploadPart(ctx, filePath, state!, part.partNumber),
+    );
+
+    const sha256 = await calculateSHA256(filePath);
+    const parts = state.completedParts
+      .filter((p) => p.partNumber <= partCount)
+      .sort((a, b) => a.partNumber - b.partNumber);
+
+    logger.debug(`Multipart upload complete. SHA256: ${sha256}`);
+
+    return { size: stats.size, sha256, parts };
+  }
+
+  private async uploadPart(
+    ctx: UploadContext,
+    filePath: string,
+    state: UploadState,
+    partNumber: number,
+  ): Promise<void> {
+    const start = (partNumber - 1) * state.partSize;
+    const end = start + this.partLength(state, partNumber);
+
+    // Parts still to send, for refreshes: URLs of finished parts are not
+    // needed again
+    const pending = () => {
+      const done = new Set(state.completedParts.map((p) => p.partNumber));
+      return ctx.command
+        .multipart!.parts.map((p) => p.partNumber)
+        .filter((n) => n <= Math.ceil(state.fileSize / state.partSize))
+        .filter((n) => !done.has(n));
+    };
+
+    const etag = await this.putPart(ctx, partNumber, pending, () => {
+      const partStream = fs.createReadStream(filePath, {
+        start,
+        end: end - 1,
+      });
+      partStream.on("data", (chunk) => ctx.progress.add(chunk.length));
+      return { body: partStream, length: end - start };
+    });
+
+    state.completedParts.push({ partNumber, etag });
+    await saveUploadState(state);
+
+    logger.debug(`Uploaded part ${partNumber}`, { bytes: end - start });
+  }
+
+  /**
+   * PUTs one part and returns its ETag. URLs about to expire are refreshed
+   * first, since a long upload can outlive them between parts. A 403 from
+   * storage (the URL expired after all) is answered with one refresh and
+   * a resend that doesn't count as a failed attempt.
+   */
+  private async putPart(
+    ctx: UploadContext,
+    partNumber: number,
+    pendingParts: () => number[],
+    open: () => { body: fs.ReadStream | Buffer; length: number },
+  ): Promise<string> {
+    const { command } = ctx;
+    const hasUrl = () =>
+      command.multipart!.parts.some((p) => p.partNumber === partNumber);
+    const urlFor = () => {
+      const part = command.multipart!.parts.find(
+        (p) => p.partNumber === partNumber,
+      );
+      if (!part) {
+        throw new Error(`No presigned URL for part ${partNumber}`);
+      }
+      return part.url;
+    };
+
+    let resent = false;
+    for (;;) {
+      await this.ensureFreshUrls(command, pendingParts());
+      // Streamed archives only get URLs for further parts as they grow
+      for (let tries = 0; !hasUrl() && tries < 2; tries++) {
+        await this.ensureFreshUrls(command, pendingParts(), true);
+      }
+      const url = urlFor();
+      const { body, length } = open();
+
+      try {
+        const response = await axios.put(url, body, {
+          headers: {
+            "Content-Type": "application/octet-stream",
+            "Content-Length": length,
+          },
+          maxBodyLength: Infinity,
+          maxContentLength: Infinity,
+          signal: ctx.signal,
+        });
+
+        const etag = response.headers["etag"];
+        if (!etag) {
+          throw new Error(`Storage returned no ETag for part ${partNumber}`);
+        }
+        return etag;
+      } catch (error) {
+        const expired =
+          axios.isAxiosError(error) && error.response?.status === 403;
+        if (!expired || resent || ctx.signal.aborted) {
+          throw error;
+        }
+        resent = true;
+
+        logger.info(`Part ${partNumber} URL was rejected, refreshing`, {
+          downloadId: command.downloadId,
+        });
+        // Another part may already have refreshed it
+        if (urlFor() === url) {
+          await this.ensureFreshUrls(command, pendingParts(), true);
+        }
+      } finally {
+        if (!Buffer.isBuffer(body)) {
+          body.destroy();
+        }
+      }
+    }
+  }
+
+  /**
+   * Packs an archive straight into its multipart upload instead of
+   * spooling it, and URLs for further parts are requested as it grows.
+   * Progress counts the bytes read from the files.
+   */
+  private async streamArchive(
+    ctx: UploadContext,
+    sources: ArchiveSource[],
+    multipart: MultipartUpload,
+  ): Promise<UploadResult> {
+    const { compression } = ctx.command.archive!;
+
+    ctx.progress.startAttempt(ctx.attempt, await archiveInputSize(sources));
+    const { pack, manifest } = packArchive(sources, (bytes) =>
+      ctx.progress.add(bytes),
+    );
+
+    // The manifest describes the files; `original` is what the decrypted
+    // artifact hashes to
+    const result = await this.streamUpload(
+      ctx,
+      multipart,
+      Readable.from(pack),
+      compression === "none" ? null : createCompressor(compression),
+      "encryption",
+    );
+    return { ...result, manifest: await manifest };
+  }
+
+  // Compresses and/or encrypts a single file straight into its multipart
+  // upload instead of spooling copies of it
+  private async streamFile(
+    ctx: UploadContext,
+    filePath: string,
+    multipart: MultipartUpload,
+  ): Promise<UploadResult> {
+    const { compression } = ctx.command;
+
+    const { size } = await fs.promises.stat(filePath);
+    ctx.progress.startAttempt(ctx.attempt, size);
+    const input = fs.createReadStream(filePath);
+    input.on("data", (chunk) => ctx.progress.add(chunk.length));
+
+    return this.streamUpload(
+      ctx,
+      multipart,
+      input,
+      compression ? createCompressor(compression) : null,
+      "compression",
+    );
+  }
+
+  /**
+   * Sends `source`, compressed and encrypted as requested, through the
+   * multipart upload: the output is cut into parts that are sent while the
+   * next ones are produced. A stream can't be rewound, so a failed attempt
+   * sends everything again. `original` describes the data entering the
+   * stage named by `originalBefore`, when encrypting or compressing there.
+   */
+  private async streamUpload(
+    ctx: UploadContext,
+    multipart: MultipartUpload,
+    source: Readable,
+    compressor: Transform | null,
+    originalBefore: "compression" | "encryption",
+  ): Promise<UploadResult> {
+    const { command } = ctx;
+
+    const hashesOriginal =
+      originalBefore === "compression"
+        ? Boolean(compressor || command.encryption)
+        : Boolean(command.encryption);
+    const original = hashesOriginal ? createHashingStream() : undefined;
+    const hashStage = (stage: typeof originalBefore) =>
+      original && originalBefore === stage
+        ? original.stream
+        : new PassThrough();
+
+    // Stages that don't apply pass data through
+    const encryptor = command.encryption
+      ? createEncryptor(command.encryption.publicKey)
+      : new PassThrough();
+    const stored = createHashingStream();
+
+    const parts: { partNumber: number; etag: string }[] = [];
+    // Parts that may still need a URL: those in flight and the next batch
+    const pendingParts = (partNumber: number) => () => {
+      const done = new Set(parts.map((p) => p.partNumber));
+      const first = Math.max(1, partNumber - this.partConcurrency);
+      return Array.from(
+        { length: partNumber + STREAM_URL_BATCH - first },
+        (_, i) => first + i,
+      ).filter((n) => !done.has(n));
+    };
+
+    const writer = new PartWriter(
+      multipart.partSize,
+      Math.max(1, this.partConcurrency),
+      async (partNumber, body) => {
+        const etag = await this.putPart(
+          ctx,
+          partNumber,
+          pendingParts(partNumber),
+          () => ({ body, length: body.length }),
+        );
+        parts.push({ partNumber, etag });
+        logger.debug(`Uploaded part ${partNumber}`, { bytes: body.length });
+      },
+    );
+
+    await pipeline(
+      source,
+      hashStage("compression"),
+      compressor || new PassThrough(),
+      hashStage("encryption"),
+      encryptor,
+      stored.stream,
+      writer,
+      { signal: ctx.signal },
+    );
+
+    const { size, sha256 } = stored.digest();
+    logger.debug(`Streamed upload complete. SHA256: ${sha256}`);
+
+    return {
+      size,
+      sha256,
+      parts: parts.sort((a, b) => a.partNumber - b.partNumber),
+      original: original?.digest(),
+    };
+  }
+
+  private partLength(state: UploadState, partNumber: number): number {
+    const start = (partNumber - 1) * state.partSize;
+    return Math.max(0, Math.min(state.partSize, state.fileSize - start));
+  }
+
+  /**
+   * Runs `task` over `items` with at most `limit` in flight. After the
+   * first failure no new items are started; the first error is rethrown
+   * once the in-flight ones settle.
+   */
+  private async runWithConcurrency<T>(
+    items: T[],
+    limit: number,
+    task: (item: T) => Promise<void>,
+  ): Promise<void> {
+    let next = 0;
+    let firstError: unknown = null;
+
+    const worker = async () => {
+      while (next < items.length && !firstError) {
+        const item = items[next++];
+        try {
+          await task(item);
+        } catch (error) {
+          firstError = firstError || error;
+        }
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: Math.min(limit, items.length) }, worker),
+    );
+
+    if (firstError) {
+      throw firstError;
+    }
+  }
+
+  private isAllowedStorageUrl(url: string): boolean {
+    try {
+      const { host, hostname } = new URL(url);
+      return this.allowedStorageHosts.some(
+        (allowed) => allowed === host || allowed === hostname,
+      );
+    } catch {
+      return false;
+    }
+  }
+
   private async publishFailedEvent(
     downloadId: string,
     objectKey: string,
@@ -190,8 +1019,63 @@ class UploaderService {
     }
   }
 
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  /**
+   * Waits until fewer than MAX_CONCURRENT_UPLOADS uploads are running.
+   * Resolves to false if the upload is cancelled while waiting.
+   */
+  private async acquireUploadSlot(
+    downloadId: string,
+    signal: AbortSignal,
+  ): Promise<boolean> {
+    // Cancelled while the upload was being prepared
+    if (signal.aborted) return false;
+
+    if (
+      this.maxConcurrentUploads <= 0 ||
+      this.runningUploads < this.maxConcurrentUploads
+    ) {
+      this.runningUploads++;
+      return true;
+    }
+
+    logger.info(`Upload ${downloadId} waiting for a free slot`, {
+      running: this.runningUploads,
+      waiting: this.slotWaiters.length + 1,
+    });
+
+    return new Promise((resolve) => {
+      const waiter = () => {
+        signal.removeEventListener("abort", onAbort);
+        this.runningUploads++;
+        resolve(true);
+      };
+      const onAbort = () => {
+        this.slotWaiters = this.slotWaiters.filter((w) => w !== waiter);
+        resolve(false);
+      };
+      this.slotWaiters.push(waiter);
+      signal.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  private releaseUploadSlot(): void {
+    this.runningUploads--;
+    this.slotWaiters.shift()?.();
+  }
+
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(resolve, ms);
+      // Wake up early when the upload is cancelled during backoff
+      signal?.addEventListener(
+        "abort",
+        () => {
+          clearTimeout(timer);
+          resolve();
+        },
+        { once: true },
+      );
+    });
   }
 }
 
@@ -0,0 +1,139 @@
+import crypto from "crypto";
+import fs from "fs";
+import { pipeline } from "stream/promises";
+import tar from "tar-stream";
+import { ArchiveSource } from "./file-access";
+import { createCompressor, spoolPath } from "./compression";
+import { ArchiveCompression, ManifestEntry } from "../models/message.model";
+
+const EXTENSIONS: Record<ArchiveCompression, string> = {
+  none: ".tar",
+  gzip: ".tar.gz",
+  zstd: ".tar.zst",
+};
+
+// Where the archive for a download is spooled
+export function archiveSpoolPath(
+  downloadId: string,
+  compression: ArchiveCompression,
+): string {
+  return spoolPath(downloadId, EXTENSIONS[compression]);
+}
+
+function addEntry(
+  pack: tar.Pack,
+  source: ArchiveSource,
+  stats: fs.Stats,
+  onRead?: (bytes: number) => void,
+): Promise<ManifestEntry> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash("sha256");
+    const entry = pack.entry(
+      {
+        name: source.archivePath,
+        size: stats.size,
+        mtime: stats.mtime,
+        mode: stats.mode & 0o777,
+      },
+      (error) => {
+        if (error) {
+          reject(error);
+          return;
+        }
+        resolve({
+          path: source.archivePath,
+          size: stats.size,
+          mtime: stats.mtime.toISOString(),
+          sha256: hash.digest("hex"),
+        });
+      },
+    );
+
+    if (stats.size === 0) {
+      entry.end(Buffer.alloc(0));
+      return;
+    }
+
+    // Read exactly the size in the header; files that keep growing (logs)
+    // are captured as of the stat
+    const input = fs.createReadStream(source.path, {
+      start: 0,
+      end: stats.size - 1,
+    });
+    input.on("data", (chunk) => {
+      hash.update(chunk);
+      onRead?.(chunk.length);
+    });
+    input.on("error", reject);
+    input.pipe(entry);
+  });
+}
+
+// Total size of the files an archive will hold, for progress
+export async function archiveInputSize(
+  sources: ArchiveSource[],
+): Promise<number> {
+  let total = 0;
+  for (const source of sources) {
+    total += (await fs.promises.stat(source.path)).size;
+  }
+  return total;
+}
+
+/**
+ * Streams `sources` as a tar archive, hashing each file on the way.
+ * `manifest` resolves once every file was packed; a file that can't be
+ * read destroys the stream. `onRead` is called with the bytes read from
+ * the files.
+ */
+export function packArchive(
+  sources: ArchiveSource[],
+  onRead?: (bytes: number) => void,
+): { pack: tar.Pack; manifest: Promise<ManifestEntry[]> } {
+  const pack = tar.pack();
+
+  const manifest = (async () => {
+    const entries: ManifestEntry[] = [];
+    try {
+      for (const source of sources) {
+        const stats = await fs.promises.stat(source.path);
+        entries.push(await addEntry(pack, source, stats, onRead));
+      }
+      pack.finalize();
+    } catch (error) {
+      pack.destroy(error instanceof Error ? error : undefined);
+      throw error;
+    }
+    return entries;
+  })();
+  // Surfaced through the stream; awaited by callers once it ended
+  manifest.catch(() => undefined);
+
+  return { pack, manifest };
+}
+
+/**
+ * Packs `sources` into a tar archive (optionally compressed) at
+ * `archivePath` and returns the manifest. Used when the server sent no
+ * multipart upload to stream into; the caller uploads the archive and
+ * removes it afterwards.
+ */
+export async function buildArchive(
+  archivePath: string,
+  sources: ArchiveSource[],
+  compression: ArchiveCompression,
+  signal: AbortSignal,
+): Promise<ManifestEntry[]> {
+  const { pack, manifest } = packArchive(sources);
+  const output = fs.createWriteStream(archivePath);
+
+  try {
+    await (compression === "none"
+      ? pipeline(pack, output, { signal })
+      : pipeline(pack, createCompressor(compression), output, { signal }));
+    return await manifest;
+  } catch (error) {
+    await fs.promises.rm(archivePath, { force: true });
+    throw error;
+  }
+}
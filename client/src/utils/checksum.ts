@@ -1,5 +1,6 @@
 import crypto from "crypto";
 import fs from "fs";
+import { Transform } from "stream";
 
 export async function calculateSHA256(filePath: string): Promise<string> {
   return new Promise((resolve, reject) => {
@@ -19,3 +20,25 @@ export async function calculateSHA256(filePath: string): Promise<string> {
     });
   });
 }
+
+/**
+ * Returns a pass-through stream that counts and hashes what flows through
+ * it. `digest` is only meaningful once the stream has ended.
+ */
+export function createHashingStream(): {
+  stream: Transform;
+  digest: () => { size: number; sha256: string };
+} {
+  const hash = crypto.createHash("sha256");
+  let size = 0;
+
+  const stream = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      hash.update(chunk);
+      size += chunk.length;
+      callback(null, chunk);
+    },
+  });
+
+  return { stream, digest: () => ({ size, sha256: hash.digest("hex") }) };
+}
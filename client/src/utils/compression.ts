@@ -0,0 +1,67 @@
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import zlib from "zlib";
+import { Transform } from "stream";
+import { pipeline } from "stream/promises";
+import { UploadCompression } from "../models/message.model";
+
+// Archives and compressed or encrypted copies are spooled here when the
+// server sent no multipart upload to stream them into, since a single
+// presigned PUT needs the final size up front
+const spoolDir = process.env.SPOOL_DIR || os.tmpdir();
+
+export const COMPRESSION_EXTENSIONS: Record<UploadCompression, string> = {
+  gzip: ".gz",
+  brotli: ".br",
+  zstd: ".zst",
+};
+
+export function spoolPath(downloadId: string, extension: string): string {
+  return path.join(spoolDir, `silentmode-${downloadId}${extension}`);
+}
+
+export function createCompressor(compression: UploadCompression): Transform {
+  switch (compression) {
+    case "gzip":
+      return zlib.createGzip();
+    case "brotli":
+      return zlib.createBrotliCompress();
+    case "zstd":
+      // zlib has zstd from Node.js 22.15 (see engines in package.json)
+      return zlib.createZstdCompress();
+  }
+}
+
+/**
+ * Writes a compressed copy of `source` to `destination` and returns the
+ * size and SHA-256 of the original, as read.
+ */
+export async function compressFile(
+  source: string,
+  destination: string,
+  compression: UploadCompression,
+  signal: AbortSignal,
+): Promise<{ size: number; sha256: string }> {
+  const compressor = createCompressor(compression);
+  const hash = crypto.createHash("sha256");
+  let size = 0;
+
+  const input = fs.createReadStream(source);
+  input.on("data", (chunk) => {
+    hash.update(chunk);
+    size += chunk.length;
+  });
+
+  try {
+    await pipeline(input, compressor, fs.createWriteStream(destination), {
+      signal,
+    });
+  } catch (error) {
+    await fs.promises.rm(destination, { force: true });
+    throw error;
+  }
+
+  return { size, sha256: hash.digest("hex") };
+}
@@ -0,0 +1,77 @@
+import crypto from "crypto";
+import fs from "fs";
+import { Transform } from "stream";
+import { pipeline } from "stream/promises";
+
+// Envelope layout (see scripts/decrypt-artifact.js):
+//   "SMENC1" | u16 BE wrapped key length | wrapped key | 12-byte IV |
+//   AES-256-GCM ciphertext | 16-byte auth tag
+// The AES key is random per upload and wrapped with RSA-OAEP (SHA-256).
+const MAGIC = Buffer.from("SMENC1");
+const IV_LENGTH = 12;
+
+/**
+ * Returns a stream that encrypts what passes through it for the holder of
+ * `publicKey`, envelope included.
+ */
+export function createEncryptor(publicKey: string): Transform {
+  const dataKey = crypto.randomBytes(32);
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const wrappedKey = crypto.publicEncrypt(
+    {
+      key: publicKey,
+      padding: crypto.constants.RSA_PKCS1_OAEP_PADDING,
+      oaepHash: "sha256",
+    },
+    dataKey,
+  );
+
+  const keyLength = Buffer.alloc(2);
+  keyLength.writeUInt16BE(wrappedKey.length);
+
+  const cipher = crypto.createCipheriv("aes-256-gcm", dataKey, iv);
+  const encryptor = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      callback(null, cipher.update(chunk));
+    },
+    flush(callback) {
+      this.push(cipher.final());
+      callback(null, cipher.getAuthTag());
+    },
+  });
+  encryptor.push(Buffer.concat([MAGIC, keyLength, wrappedKey, iv]));
+
+  return encryptor;
+}
+
+/**
+ * Encrypts `source` for the holder of `publicKey` into `destination` and
+ * returns the size and SHA-256 of the plaintext.
+ */
+export async function encryptFile(
+  source: string,
+  destination: string,
+  publicKey: string,
+  signal: AbortSignal,
+): Promise<{ size: number; sha256: string }> {
+  const encryptor = createEncryptor(publicKey);
+  const hash = crypto.createHash("sha256");
+  let size = 0;
+
+  const input = fs.createReadStream(source);
+  input.on("data", (chunk) => {
+    hash.update(chunk);
+    size += chunk.length;
+  });
+
+  try {
+    await pipeline(input, encryptor, fs.createWriteStream(destination), {
+      signal,
+    });
+  } catch (error) {
+    await fs.promises.rm(destination, { force: true });
+    throw error;
+  }
+
+  return { size, sha256: hash.digest("hex") };
+}
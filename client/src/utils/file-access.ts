@@ -0,0 +1,311 @@
+import fs from "fs";
+import path from "path";
+import { calculateSHA256 } from "./checksum";
+import { CatalogFile, FileSelector } from "../models/message.model";
+
+// A file to pack, with its name inside the archive
+export interface ArchiveSource {
+  path: string;
+  archivePath: string;
+}
+
+// Directories or glob patterns (comma-separated) the server may pick files
+// from. Patterns support `*` within a path segment and `**` across segments.
+const allowlist = (process.env.FILE_ALLOWLIST || "")
+  .split(",")
+  .map((entry) => entry.trim())
+  .filter(Boolean);
+
+// Logical names the server can ask for instead of a path, as `name=path`
+// pairs (comma-separated)
+const aliases = new Map(
+  (process.env.FILE_ALIASES || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf("=");
+      return [
+        entry.slice(0, separator).trim(),
+        entry.slice(separator + 1).trim(),
+      ] as [string, string];
+    })
+    .filter(([name, target]) => name && target),
+);
+
+// Upper bound on files packed into one archive upload
+const maxArchiveFiles = parseInt(process.env.ARCHIVE_MAX_FILES || "10000", 10);
+
+// Upper bound on files reported by listAllowedFiles
+const maxListEntries = parseInt(
+  process.env.FILE_LIST_MAX_ENTRIES || "1000",
+  10,
+);
+
+function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*" && pattern[i + 1] === "*") {
+      source += ".*";
+      i++;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function realpathOrSelf(target: string): string {
+  try {
+    return fs.realpathSync(target);
+  } catch {
+    return path.resolve(target);
+  }
+}
+
+// Requested paths must be absolute and must not climb out with `..`
+function assertSafePath(requested: string): void {
+  if (
+    !path.isAbsolute(requested) ||
+    requested.includes("\0") ||
+    requested.split(/[\\/]/).includes("..")
+  ) {
+    throw new Error(`Invalid file path: ${requested}`);
+  }
+}
+
+function isAllowed(realPath: string): boolean {
+  return allowlist.some((entry) => {
+    if (/[*?]/.test(entry)) {
+      return globToRegExp(path.resolve(entry)).test(realPath);
+    }
+    const root = realpathOrSelf(entry);
+    return realPath === root || realPath.startsWith(root + path.sep);
+  });
+}
+
+/**
+ * Resolves the file an upload command asks for. Without a selector the
+ * agent's default file is used. Requested paths must be absolute, free of
+ * `..`, and resolve (after following symlinks) to a regular file inside
+ * FILE_ALLOWLIST; aliases must be listed in FILE_ALIASES. Throws with a
+ * message suitable for an upload_failed event.
+ */
+export async function resolveRequestedFile(
+  file: FileSelector | undefined,
+  defaultPath: string,
+): Promise<string> {
+  let requested: string;
+
+  if (file?.name) {
+    const target = aliases.get(file.name);
+    if (!target) {
+      throw new Error(`Unknown file alias: ${file.name}`);
+    }
+    requested = target;
+  } else if (file?.path) {
+    assertSafePath(file.path);
+    requested = file.path;
+  } else {
+    return defaultPath;
+  }
+
+  let realPath: string;
+  try {
+    realPath = await fs.promises.realpath(requested);
+  } catch {
+    throw new Error(`File not found: ${requested}`);
+  }
+
+  // Aliases and the default file are configured locally and always allowed
+  const configured = !!file.name || realPath === realpathOrSelf(defaultPath);
+  if (!configured && !isAllowed(realPath)) {
+    throw new Error(`File is not in the allowlist: ${requested}`);
+  }
+
+  const stats = await fs.promises.stat(realPath);
+  if (!stats.isFile()) {
+    throw new Error(`Not a regular file: ${requested}`);
+  }
+
+  return realPath;
+}
+
+// The directory a pattern starts from: everything before the first wildcard
+function patternRoot(pattern: string): string {
+  const segments = path.resolve(pattern).split(path.sep);
+  const wildcard = segments.findIndex((segment) => /[*?]/.test(segment));
+  return segments.slice(0, wildcard).join(path.sep) || path.sep;
+}
+
+async function walk(
+  dir: string,
+  visit: (filePath: string) => Promise<boolean>,
+): Promise<boolean> {
+  let entries: fs.Dirent[];
+  try {
+    entries = await fs.promises.readdir(dir, { withFileTypes: true });
+  } catch {
+    return true;
+  }
+
+  for (const entry of entries) {
+    const entryPath = path.join(dir, entry.name);
+    // Symlinked directories are not followed, so a link can't cause a loop
+    const keepGoing = entry.isDirectory()
+      ? await walk(entryPath, visit)
+      : await visit(entryPath);
+    if (!keepGoing) return false;
+  }
+  return true;
+}
+
+/**
+ * Lists the files the server may request: the default file, FILE_ALIASES
+ * targets and regular files under FILE_ALLOWLIST. Paths are reported
+ * resolved, so each can be passed back as-is in an upload command. Stops
+ * after FILE_LIST_MAX_ENTRIES files.
+ */
+export async function listAllowedFiles(
+  defaultPath: string,
+  hash: boolean,
+): Promise<{ files: CatalogFile[]; truncated: boolean }> {
+  const files = new Map<string, CatalogFile>();
+  let truncated = false;
+
+  const add = async (
+    filePath: string,
+    name?: string,
+    mustBeAllowed = false,
+  ): Promise<boolean> => {
+    let realPath: string;
+    let stats: fs.Stats;
+    try {
+      realPath = await fs.promises.realpath(filePath);
+      stats = await fs.promises.stat(realPath);
+    } catch {
+      return true;
+    }
+    if (!stats.isFile() || (mustBeAllowed && !isAllowed(realPath))) {
+      return true;
+    }
+
+    const existing = files.get(realPath);
+    if (existing) {
+      existing.name = existing.name || name;
+      return true;
+    }
+    if (files.size >= maxListEntries) {
+      truncated = true;
+      return false;
+    }
+
+    files.set(realPath, {
+      path: realPath,
+      name,
+      size: stats.size,
+      mtime: stats.mtime.toISOString(),
+    });
+    return true;
+  };
+
+  await add(defaultPath);
+  for (const [name, target] of aliases) {
+    await add(target, name);
+  }
+  for (const entry of allowlist) {
+    const root = /[*?]/.test(entry) ? patternRoot(entry) : entry;
+    if (!(await walk(root, (filePath) => add(filePath, undefined, true)))) {
+      break;
+    }
+  }
+
+  if (hash) {
+    for (const file of files.values()) {
+      file.sha256 = await calculateSHA256(file.path);
+    }
+  }
+
+  return { files: Array.from(files.values()), truncated };
+}
+
+/**
+ * Expands the directories and glob patterns of an archive command into the
+ * allowlisted regular files they cover. Files are named relative to the
+ * pattern root, or to a directory's parent so the directory name is kept.
+ * Throws when a path is invalid, nothing matches or more than
+ * ARCHIVE_MAX_FILES files would be included.
+ */
+export async function collectArchiveFiles(
+  paths: string[],
+): Promise<ArchiveSource[]> {
+  const sources = new Map<string, ArchiveSource>();
+  const seen = new Set<string>();
+
+  const add = async (filePath: string, base: string): Promise<boolean> => {
+    let realPath: string;
+    let stats: fs.Stats;
+    try {
+      realPath = await fs.promises.realpath(filePath);
+      stats = await fs.promises.stat(realPath);
+    } catch {
+      return true;
+    }
+    if (!stats.isFile() || !isAllowed(realPath) || seen.has(realPath)) {
+      return true;
+    }
+
+    const archivePath = path.relative(base, filePath).split(path.sep).join("/");
+    if (sources.has(archivePath)) {
+      return true;
+    }
+    if (sources.size >= maxArchiveFiles) {
+      throw new Error(
+        `Archive would include more than ${maxArchiveFiles} files`,
+      );
+    }
+
+    seen.add(realPath);
+    sources.set(archivePath, { path: realPath, archivePath });
+    return true;
+  };
+
+  for (const requested of paths) {
+    assertSafePath(requested);
+
+    if (/[*?]/.test(requested)) {
+      const root = patternRoot(requested);
+      const pattern = globToRegExp(path.resolve(requested));
+      await walk(root, async (filePath) =>
+        pattern.test(filePath) ? add(filePath, root) : true,
+      );
+      continue;
+    }
+
+    let stats: fs.Stats;
+    try {
+      stats = await fs.promises.stat(requested);
+    } catch {
+      throw new Error(`Path not found: ${requested}`);
+    }
+
+    const resolved = path.resolve(requested);
+    const base = path.dirname(resolved);
+    if (stats.isDirectory()) {
+      await walk(resolved, (filePath) => add(filePath, base));
+    } else {
+      await add(resolved, base);
+    }
+  }
+
+  if (!sources.size) {
+    throw new Error("No allowed files matched the archive paths");
+  }
+
+  return Array.from(sources.values());
+}
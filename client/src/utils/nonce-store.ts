@@ -0,0 +1,75 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+interface SeenNonce {
+  entryId: string;
+  issuedAt: string;
+}
+
+const storePath =
+  process.env.NONCE_STORE_PATH ||
+  path.join(os.homedir(), ".silentmode", "nonces.json");
+
+// Loaded once; concurrent first callers share the same read
+let loading: Promise<Map<string, SeenNonce>> | null = null;
+
+function load(): Promise<Map<string, SeenNonce>> {
+  if (!loading) {
+    loading = fs.promises
+      .readFile(storePath, "utf8")
+      .then(
+        (content) =>
+          new Map<string, SeenNonce>(Object.entries(JSON.parse(content))),
+      )
+      .catch(() => new Map<string, SeenNonce>());
+  }
+  return loading;
+}
+
+async function save(snapshot: string): Promise<void> {
+  await fs.promises.mkdir(path.dirname(storePath), { recursive: true });
+
+  // Write then rename so a crash never leaves a truncated store
+  const tmp = `${storePath}.tmp`;
+  await fs.promises.writeFile(tmp, snapshot);
+  await fs.promises.rename(tmp, storePath);
+}
+
+// Commands are checked concurrently; each check-and-save runs on its own
+// so no two share the temp file or overtake each other's writes
+let pending: Promise<unknown> = Promise.resolve();
+
+/**
+ * Records the nonce of a verified command. A nonce may come back only
+ * under the same stream entry, which is a redelivery after a restart;
+ * under a new entry it is a replay and false is returned. Nonces issued
+ * more than `maxAgeMs` ago are pruned, as such commands are rejected by age.
+ */
+export function recordNonce(
+  nonce: string,
+  entryId: string,
+  issuedAt: string,
+  maxAgeMs: number,
+): Promise<boolean> {
+  const result = pending.then(async () => {
+    const seen = await load();
+
+    const previous = seen.get(nonce);
+    if (previous) {
+      return previous.entryId === entryId;
+    }
+
+    const cutoff = Date.now() - maxAgeMs;
+    for (const [key, value] of seen) {
+      if (new Date(value.issuedAt).getTime() < cutoff) seen.delete(key);
+    }
+
+    seen.set(nonce, { entryId, issuedAt });
+    await save(JSON.stringify(Object.fromEntries(seen)));
+    return true;
+  });
+
+  pending = result.catch(() => undefined);
+  return result;
+}
@@ -0,0 +1,75 @@
+import { Writable } from "stream";
+
+/**
+ * Cuts what is written to it into parts of `partSize` bytes (the last one
+ * may be shorter) and hands each to `upload`, numbered from 1, at most
+ * `concurrency` at a time. Writes wait while that many are in flight, so
+ * memory stays around (concurrency + 1) × partSize. The first failed part
+ * fails the stream.
+ */
+export class PartWriter extends Writable {
+  private chunks: Buffer[] = [];
+  private buffered: number = 0;
+  private nextPartNumber: number = 1;
+  private inFlight: Set<Promise<void>> = new Set();
+  private failure: Error | null = null;
+
+  constructor(
+    private partSize: number,
+    private concurrency: number,
+    private upload: (partNumber: number, body: Buffer) => Promise<void>,
+  ) {
+    super();
+  }
+
+  _write(
+    chunk: Buffer,
+    _encoding: BufferEncoding,
+    callback: (error?: Error | null) => void,
+  ): void {
+    this.chunks.push(chunk);
+    this.buffered += chunk.length;
+    this.sendFullParts().then(() => callback(), callback);
+  }
+
+  _final(callback: (error?: Error | null) => void): void {
+    this.finish().then(() => callback(), callback);
+  }
+
+  private async sendFullParts(): Promise<void> {
+    while (this.buffered >= this.partSize) {
+      const data = Buffer.concat(this.chunks, this.buffered);
+      const rest = data.subarray(this.partSize);
+      this.chunks = rest.length > 0 ? [rest] : [];
+      this.buffered = rest.length;
+      await this.send(data.subarray(0, this.partSize));
+    }
+  }
+
+  private async finish(): Promise<void> {
+    // An empty stream still needs one (empty) part
+    if (this.buffered > 0 || this.nextPartNumber === 1) {
+      await this.send(Buffer.concat(this.chunks, this.buffered));
+      this.chunks = [];
+      this.buffered = 0;
+    }
+    await Promise.all(this.inFlight);
+    if (this.failure) throw this.failure;
+  }
+
+  private async send(body: Buffer): Promise<void> {
+    while (this.inFlight.size >= this.concurrency && !this.failure) {
+      await Promise.race(this.inFlight);
+    }
+    if (this.failure) throw this.failure;
+
+    const task: Promise<void> = this.upload(this.nextPartNumber++, body)
+      .catch((error) => {
+        this.failure =
+          this.failure ||
+          (error instanceof Error ? error : new Error(String(error)));
+      })
+      .finally(() => this.inFlight.delete(task));
+    this.inFlight.add(task);
+  }
+}
@@ -0,0 +1,64 @@
+export interface ProgressSnapshot {
+  bytesSent: number;
+  totalBytes: number;
+  throughputBps: number;
+  attempt: number;
+}
+
+/**
+ * Tracks bytes sent for one upload attempt and calls `report` at most once
+ * per `intervalMs`, plus once more on `flush`.
+ */
+export class ProgressTracker {
+  private bytesSent: number = 0;
+  private baseBytes: number = 0;
+  private totalBytes: number = 0;
+  private attempt: number = 0;
+  private startedAt: number = Date.now();
+  private lastReportAt: number = 0;
+
+  constructor(
+    private report: (snapshot: ProgressSnapshot) => void,
+    private intervalMs: number,
+  ) {}
+
+  /**
+   * Starts a new attempt. `alreadySent` counts bytes carried over from a
+   * previous attempt (e.g. resumed parts); they are excluded from throughput.
+   */
+  startAttempt(attempt: number, totalBytes: number, alreadySent = 0): void {
+    this.attempt = attempt;
+    this.totalBytes = totalBytes;
+    this.baseBytes = alreadySent;
+    this.bytesSent = alreadySent;
+    this.startedAt = Date.now();
+    this.lastReportAt = 0;
+  }
+
+  add(bytes: number): void {
+    this.bytesSent += bytes;
+
+    const now = Date.now();
+    if (now - this.lastReportAt >= this.intervalMs) {
+      this.lastReportAt = now;
+      this.report(this.snapshot());
+    }
+  }
+
+  flush(): void {
+    this.report(this.snapshot());
+  }
+
+  private snapshot(): ProgressSnapshot {
+    const elapsedSeconds = (Date.now() - this.startedAt) / 1000;
+    const sentThisAttempt = this.bytesSent - this.baseBytes;
+
+    return {
+      bytesSent: Math.min(this.bytesSent, this.totalBytes),
+      totalBytes: this.totalBytes,
+      throughputBps:
+        elapsedSeconds > 0 ? Math.round(sentThisAttempt / elapsedSeconds) : 0,
+      attempt: this.attempt,
+    };
+  }
+}
@@ -0,0 +1,55 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+export interface UploadState {
+  downloadId: string;
+  uploadId: string;
+  fileSize: number;
+  fileMtime: string;
+  partSize: number;
+  completedParts: { partNumber: number; etag: string }[];
+}
+
+const stateDir =
+  process.env.UPLOAD_STATE_DIR ||
+  path.join(os.homedir(), ".silentmode", "uploads");
+
+function statePath(downloadId: string): string {
+  return path.join(stateDir, `${downloadId}.json`);
+}
+
+export async function loadUploadState(
+  downloadId: string,
+): Promise<UploadState | null> {
+  try {
+    const content = await fs.promises.readFile(statePath(downloadId), "utf8");
+    return JSON.parse(content) as UploadState;
+  } catch (error) {
+    return null;
+  }
+}
+
+// Parts finish concurrently; saves are chained so they never interleave
+let pendingWrite: Promise<void> = Promise.resolve();
+
+export function saveUploadState(state: UploadState): Promise<void> {
+  const snapshot = JSON.stringify(state);
+
+  const write = pendingWrite.then(async () => {
+    await fs.promises.mkdir(stateDir, { recursive: true });
+
+    // Write then rename so a crash never leaves a truncated state file
+    const target = statePath(state.downloadId);
+    const tmp = `${target}.tmp`;
+    await fs.promises.writeFile(tmp, snapshot);
+    await fs.promises.rename(tmp, target);
+  });
+
+  pendingWrite = write.catch(() => undefined);
+  return write;
+}
+
+export async function clearUploadState(downloadId: string): Promise<void> {
+  await fs.promises.rm(statePath(downloadId), { force: true });
+}
@@ -0,0 +1,78 @@
+#!/usr/bin/env node
+// Decrypts an artifact uploaded with end-to-end encryption.
+//
+// Usage: node scripts/decrypt-artifact.js <private-key.pem> <input.enc> <output>
+//
+// Envelope: "SMENC1" | u16 BE wrapped key length | RSA-OAEP (SHA-256)
+// wrapped AES-256-GCM key | 12-byte IV | ciphertext | 16-byte auth tag.
+// The output is removed again if the auth tag does not verify.
+
+const crypto = require("crypto");
+const fs = require("fs");
+const { Readable } = require("stream");
+const { pipeline } = require("stream/promises");
+
+const MAGIC = Buffer.from("SMENC1");
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+async function main() {
+  const [keyPath, inputPath, outputPath] = process.argv.slice(2);
+  if (!keyPath || !inputPath || !outputPath) {
+    console.error(
+      "Usage: node scripts/decrypt-artifact.js <private-key.pem> <input.enc> <output>",
+    );
+    process.exit(2);
+  }
+
+  const privateKey = fs.readFileSync(keyPath, "utf8");
+  const { size } = fs.statSync(inputPath);
+  const fd = fs.openSync(inputPath, "r");
+
+  const prefix = Buffer.alloc(MAGIC.length + 2);
+  fs.readSync(fd, prefix, 0, prefix.length, 0);
+  if (!prefix.subarray(0, MAGIC.length).equals(MAGIC)) {
+    throw new Error("Not an encrypted artifact");
+  }
+
+  const keyLength = prefix.readUInt16BE(MAGIC.length);
+  const header = Buffer.alloc(keyLength + IV_LENGTH);
+  fs.readSync(fd, header, 0, header.length, prefix.length);
+  const tag = Buffer.alloc(TAG_LENGTH);
+  fs.readSync(fd, tag, 0, TAG_LENGTH, size - TAG_LENGTH);
+  fs.closeSync(fd);
+
+  const dataKey = crypto.privateDecrypt(
+    {
+      key: privateKey,
+      padding: crypto.constants.RSA_PKCS1_OAEP_PADDING,
+      oaepHash: "sha256",
+    },
+    header.subarray(0, keyLength),
+  );
+  const iv = header.subarray(keyLength);
+
+  const decipher = crypto.createDecipheriv("aes-256-gcm", dataKey, iv);
+  decipher.setAuthTag(tag);
+
+  const start = prefix.length + header.length;
+  const end = size - TAG_LENGTH - 1;
+  const input =
+    end >= start
+      ? fs.createReadStream(inputPath, { start, end })
+      : Readable.from([]);
+
+  try {
+    await pipeline(input, decipher, fs.createWriteStream(outputPath));
+  } catch (error) {
+    fs.rmSync(outputPath, { force: true });
+    throw error;
+  }
+
+  console.log(`Decrypted ${inputPath} -> ${outputPath}`);
+}
+
+main().catch((error) => {
+  console.error(`Decryption failed: ${error.message}`);
+  process.exit(1);
+});
@@ -0,0 +1,106 @@
+import { Request, Response } from "express";
+import Joi from "joi";
+import apiKeyService from "../services/api-key.service";
+import logger from "../utils/logger";
+import { clientIdSchema } from "../utils/validation";
+import { API_KEY_SCOPES } from "../models/api-key.model";
+
+const createApiKeySchema = Joi.object({
+  name: Joi.string().max(128).required(),
+  scopes: Joi.array()
+    .items(Joi.string().valid(...API_KEY_SCOPES))
+    .min(1)
+    .unique()
+    .required(),
+  // Omit to allow all clients
+  clientIds: Joi.array().items(clientIdSchema).min(1).unique().optional(),
+  expiresAt: Joi.date().iso().greater("now").optional(),
+});
+
+const keyIdSchema = Joi.string().uuid().required();
+
+export async function createApiKey(req: Request, res: Response): Promise<void> {
+  try {
+    const { error, value } = createApiKeySchema.validate(req.body || {});
+    if (error) {
+      res
+        .status(400)
+        .json({ error: "Invalid request body", details: error.message });
+      return;
+    }
+
+    const key = await apiKeyService.createKey(
+      value.name,
+      value.scopes,
+      value.clientIds || null,
+      value.expiresAt?.toISOString(),
+      req.principal?.name,
+    );
+    res.status(201).json(key);
+  } catch (error) {
+    logger.error("Error in createApiKey controller:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+}
+
+export async function listApiKeys(req: Request, res: Response): Promise<void> {
+  try {
+    const keys = await apiKeyService.listKeys();
+    res.status(200).json({ keys });
+  } catch (error) {
+    logger.error("Error in listApiKeys controller:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+}
+
+export async function getApiKey(req: Request, res: Response): Promise<void> {
+  try {
+    const { keyId } = req.params;
+
+    const { error } = keyIdSchema.validate(keyId);
+    if (error) {
+      res
+        .status(400)
+        .json({ error: "Invalid keyId format", details: error.message });
+      return;
+    }
+
+    const key = await apiKeyService.getKey(keyId);
+
+    if (!key) {
+      res.status(404).json({ error: "API key not found" });
+      return;
+    }
+
+    res.status(200).json(key);
+  } catch (error) {
+    logger.error("Error in getApiKey controller:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+}
+
+export async function revokeApiKey(req: Request, res: Response): Promise<void> {
+  try {
+    const { keyId } = req.params;
+
+    const { error } = keyIdSchema.validate(keyId);
+    if (error) {
+      res
+        .status(400)
+        .json({ error: "Invalid keyId format", details: error.message });
+      return;
+    }
+
+    const key = await apiKeyService.revokeKey(keyId);
+
+    if (!key) {
+      res.status(404).json({ error: "API key not found" });
+      return;
+    }
+
+    res.status(200).json(key);
+  } catch (error) {
+    logger.error("Error in revokeApiKey controller:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+}
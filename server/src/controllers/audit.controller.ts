@@ -0,0 +1,135 @@
+import { Request, Response } from "express";
+import Joi from "joi";
+import auditService from "../services/audit.service";
+import logger from "../utils/logger";
+import { clientIdSchema } from "../utils/validation";
+import { AuditEntry, AuditQuery } from "../models/audit.model";
+
+// Rows fetched per query while streaming an export
+const EXPORT_BATCH_SIZE = 500;
+
+const CSV_COLUMNS: (keyof AuditEntry)[] = [
+  "id",
+  "occurredAt",
+  "actor",
+  "apiKeyId",
+  "action",
+  "outcome",
+  "downloadId",
+  "clientId",
+  "ip",
+  "userAgent",
+  "details",
+];
+
+const listAuditQuerySchema = Joi.object({
+  actor: Joi.string().max(128).optional(),
+  apiKeyId: Joi.string().max(64).optional(),
+  action: Joi.array().items(Joi.string().max(64)).single().optional(),
+  outcome: Joi.string().valid("success", "failure", "denied").optional(),
+  downloadId: Joi.string().uuid().optional(),
+  clientId: clientIdSchema.optional(),
+  from: Joi.date().iso().optional(),
+  to: Joi.date().iso().optional(),
+  order: Joi.string().valid("asc", "desc").default("desc"),
+  limit: Joi.number().integer().min(1).max(1000).default(100),
+  cursor: Joi.string().pattern(/^\d+$/).max(20).optional(),
+  format: Joi.string().valid("json", "ndjson", "csv").default("json"),
+});
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  let text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  // Keep spreadsheets from evaluating user-controlled values as formulas
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export async function listAuditEntries(
+  req: Request,
+  res: Response,
+): Promise<void> {
+  try {
+    // `action` may be repeated or comma-separated
+    const rawQuery = { ...req.query };
+    if (typeof rawQuery.action === "string") {
+      rawQuery.action = rawQuery.action.split(",");
+    }
+
+    const { error, value } = listAuditQuerySchema.validate(rawQuery, {
+      convert: true,
+    });
+    if (error) {
+      res
+        .status(400)
+        .json({ error: "Invalid query parameters", details: error.message });
+      return;
+    }
+
+    const query: AuditQuery = {
+      actor: value.actor,
+      apiKeyId: value.apiKeyId,
+      action: value.action,
+      outcome: value.outcome,
+      downloadId: value.downloadId,
+      clientId: value.clientId,
+      clientIds: req.principal?.clientIds ?? undefined,
+      from: value.from?.toISOString(),
+      to: value.to?.toISOString(),
+      order: value.order,
+      limit: value.limit,
+      after: value.cursor ? parseInt(value.cursor, 10) : undefined,
+    };
+
+    if (value.format === "json") {
+      const page = await auditService.listEntries(query);
+      res.status(200).json(page);
+      return;
+    }
+
+    // Exports stream every matching entry; `limit` does not apply
+    const csv = value.format === "csv";
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    res.status(200);
+    res.setHeader(
+      "Content-Type",
+      csv ? "text/csv; charset=utf-8" : "application/x-ndjson",
+    );
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="audit-${stamp}.${csv ? "csv" : "ndjson"}"`,
+    );
+    if (csv) {
+      res.write(CSV_COLUMNS.join(",") + "\n");
+    }
+
+    let after = query.after;
+    do {
+      const page = await auditService.listEntries({
+        ...query,
+        limit: EXPORT_BATCH_SIZE,
+        after,
+      });
+      for (const entry of page.entries) {
+        res.write(
+          csv
+            ? CSV_COLUMNS.map((column) => csvCell(entry[column])).join(",") +
+                "\n"
+            : JSON.stringify(entry) + "\n",
+        );
+      }
+      after = page.nextCursor ? parseInt(page.nextCursor, 10) : undefined;
+    } while (after !== undefined && !res.destroyed);
+
+    res.end();
+  } catch (error) {
+    logger.error("Error in listAuditEntries controller:", error);
+    if (!res.headersSent) {
+      res.status(500).json({ error: "Internal server error" });
+    } else {
+      res.destroy();
+    }
+  }
+}
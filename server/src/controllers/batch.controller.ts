@@ -0,0 +1,160 @@
+import { Request, Response } from "express";
+import Joi from "joi";
+import batchService from "../services/batch.service";
+import clientService from "../services/client.service";
+import auditService from "../services/audit.service";
+import logger from "../utils/logger";
+import { clientIdSchema } from "../utils/validation";
+import {
+  buildDownloadOptions,
+  downloadRequestSchema,
+  tagKeyPattern,
+} from "../utils/download-request";
+import { canAccessClient } from "../middleware/auth.middleware";
+import { BatchRecord } from "../models/batch.model";
+
+// Upper bound on clients per batch, explicit or selected
+const MAX_BATCH_CLIENTS = 1000;
+
+const createBatchSchema = downloadRequestSchema
+  .keys({
+    name: Joi.string().max(128).optional(),
+    clientIds: Joi.array()
+      .items(clientIdSchema)
+      .min(1)
+      .max(MAX_BATCH_CLIENTS)
+      .unique(),
+    // Clients carrying every tag (from their CLIENT_TAGS) and/or in a status
+    selector: Joi.object({
+      tags: Joi.object().pattern(tagKeyPattern, Joi.string().max(256)).max(20),
+      status: Joi.string().valid("online", "stale", "offline"),
+    }).min(1),
+    // Downloads of the batch in progress at once (default BATCH_CONCURRENCY)
+    concurrency: Joi.number().integer().min(1).max(100).optional(),
+  })
+  .xor("clientIds", "selector");
+
+const batchIdSchema = Joi.string().uuid().required();
+
+function canAccessBatch(req: Request, batch: BatchRecord): boolean {
+  return (batch.items || []).every((item) =>
+    canAccessClient(req.principal, item.clientId),
+  );
+}
+
+export async function createBatch(req: Request, res: Response): Promise<void> {
+  try {
+    const { error, value } = createBatchSchema.validate(req.body || {});
+    if (error) {
+      res
+        .status(400)
+        .json({ error: "Invalid request body", details: error.message });
+      return;
+    }
+
+    let targets: string[];
+    if (value.clientIds) {
+      const denied = value.clientIds.filter(
+        (id: string) => !canAccessClient(req.principal, id),
+      );
+      if (denied.length > 0) {
+        res.status(403).json({
+          error: "API key is not allowed to access these clients",
+          clientIds: denied,
+        });
+        return;
+      }
+      targets = value.clientIds;
+    } else {
+      // Selectors only reach clients the key may access
+      targets = (await clientService.listClients(value.selector))
+        .map((client) => client.clientId)
+        .filter((id) => canAccessClient(req.principal, id));
+
+      if (targets.length === 0) {
+        res.status(400).json({ error: "No clients match the selector" });
+        return;
+      }
+      if (targets.length > MAX_BATCH_CLIENTS) {
+        res.status(400).json({
+          error: `Selector matches more than ${MAX_BATCH_CLIENTS} clients`,
+          matched: targets.length,
+        });
+        return;
+      }
+    }
+
+    const built = await buildDownloadOptions(value);
+    if ("error" in built) {
+      res.status(400).json(built);
+      return;
+    }
+
+    const batch = await batchService.createBatch(
+      {
+        name: value.name,
+        clientIds: value.clientIds,
+        selector: value.selector,
+        targets,
+        concurrency: value.concurrency,
+        request: {
+          originalFilename: value.originalFilename,
+          options: built.options,
+          queueIfOffline: value.queueIfOffline,
+          onBehalfOf: value.requestedBy,
+          reason: value.reason,
+          ticket: value.ticket,
+          tags: value.tags,
+        },
+      },
+      req.principal,
+    );
+
+    await auditService.recordRequest(
+      req,
+      "batch.create",
+      "success",
+      {},
+      {
+        batchId: batch.batchId,
+        name: batch.name,
+        selector: value.selector,
+        total: batch.total,
+        concurrency: batch.concurrency,
+      },
+    );
+
+    res.status(201).json(batch);
+  } catch (error) {
+    logger.error("Error in createBatch controller:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+}
+
+export async function getBatch(req: Request, res: Response): Promise<void> {
+  try {
+    const { batchId } = req.params;
+
+    const { error } = batchIdSchema.validate(batchId);
+    if (error) {
+      res
+        .status(400)
+        .json({ error: "Invalid batchId format", details: error.message });
+      return;
+    }
+
+    const batch = await batchService.getBatch(batchId);
+
+    // As with downloads, batches touching clients the key may not access
+    // are reported as not found
+    if (!batch || !canAccessBatch(req, batch)) {
+      res.status(404).json({ error: "Batch not found" });
+      return;
+    }
+
+    res.status(200).json(batch);
+  } catch (error) {
+    logger.error("Error in getBatch controller:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+}
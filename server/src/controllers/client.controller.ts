@@ -0,0 +1,129 @@
+import { Request, Response } from "express";
+import Joi from "joi";
+import clientService from "../services/client.service";
+import logger from "../utils/logger";
+import { clientIdSchema } from "../utils/validation";
+import { parseTagFilters, tagFilterSchema } from "../utils/download-request";
+import { canAccessClient } from "../middleware/auth.middleware";
+
+const listFilesQuerySchema = Joi.object({
+  hash: Joi.boolean().default(false),
+});
+
+const listClientsQuerySchema = Joi.object({
+  status: Joi.string().valid("online", "stale", "offline").optional(),
+  // `key:value`, repeatable; clients must carry every tag given
+  tag: tagFilterSchema.optional(),
+});
+
+export async function listClients(req: Request, res: Response): Promise<void> {
+  try {
+    const { error, value } = listClientsQuerySchema.validate(req.query);
+    if (error) {
+      res
+        .status(400)
+        .json({ error: "Invalid query parameters", details: error.message });
+      return;
+    }
+
+    const clients = (
+      await clientService.listClients({
+        status: value.status,
+        tags: parseTagFilters(value.tag),
+      })
+    ).filter((client) => canAccessClient(req.principal, client.clientId));
+    res.status(200).json({ clients });
+  } catch (error) {
+    logger.error("Error in listClients controller:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+}
+
+export async function getClient(req: Request, res: Response): Promise<void> {
+  try {
+    const { clientId } = req.params;
+
+    // Validate clientId
+    const { error } = clientIdSchema.validate(clientId);
+    if (error) {
+      res
+        .status(400)
+        .json({ error: "Invalid clientId format", details: error.message });
+      return;
+    }
+
+    const client = await clientService.getClient(clientId);
+
+    if (!client) {
+      res.status(404).json({ error: "Client not found" });
+      return;
+    }
+
+    res.status(200).json(client);
+  } catch (error) {
+    logger.error("Error in getClient controller:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+}
+
+export async function listClientFiles(
+  req: Request,
+  res: Response,
+): Promise<void> {
+  try {
+    const { clientId } = req.params;
+
+    const { error: idError } = clientIdSchema.validate(clientId);
+    if (idError) {
+      res
+        .status(400)
+        .json({ error: "Invalid clientId format", details: idError.message });
+      return;
+    }
+
+    const { error, value } = listFilesQuerySchema.validate(req.query);
+    if (error) {
+      res
+        .status(400)
+        .json({ error: "Invalid query parameters", details: error.message });
+      return;
+    }
+
+    const client = await clientService.getClient(clientId);
+    if (!client) {
+      res.status(404).json({ error: "Client not found" });
+      return;
+    }
+
+    // Only an online agent can answer within the timeout
+    if (client.status !== "online") {
+      res.status(409).json({
+        error: "Client is not online",
+        status: client.status,
+        lastSeenAt: client.lastSeenAt,
+      });
+      return;
+    }
+
+    const reply = await clientService.requestFileList(clientId, value.hash);
+
+    if (!reply) {
+      res.status(504).json({ error: "Timed out waiting for the agent" });
+      return;
+    }
+
+    if (reply.error) {
+      res
+        .status(502)
+        .json({ error: "Agent could not list files", details: reply.error });
+      return;
+    }
+
+    res
+      .status(200)
+      .json({ clientId, files: reply.files, truncated: reply.truncated });
+  } catch (error) {
+    logger.error("Error in listClientFiles controller:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+}
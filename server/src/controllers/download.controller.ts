@@ -1,19 +1,36 @@
 import { Request, Response } from "express";
 import Joi from "joi";
 import downloadService from "../services/download.service";
+import clientService from "../services/client.service";
+import auditService from "../services/audit.service";
 import logger from "../utils/logger";
+import { clientIdSchema, downloadIdSchema } from "../utils/validation";
+import { openEventStream } from "../utils/sse";
+import {
+  buildDownloadOptions,
+  downloadRequestSchema,
+  parseTagFilters,
+  tagFilterSchema,
+} from "../utils/download-request";
+import { canAccessClient } from "../middleware/auth.middleware";
+import {
+  DownloadRecord,
+  RETRYABLE_STATUSES,
+  TERMINAL_STATUSES,
+} from "../models/download.model";
 
-// Validation schemas
-const triggerDownloadSchema = Joi.object({
-  reason: Joi.string().optional(),
-  requestedBy: Joi.string().email().optional(),
-  originalFilename: Joi.string().max(255).optional(), // New optional field
-});
-
-const clientIdSchema = Joi.string()
-  .pattern(/^[a-zA-Z0-9_-]+$/)
-  .required();
-const downloadIdSchema = Joi.string().uuid().required();
+// Downloads of clients the caller's key is not limited to are reported as
+// not found, so keys can't probe other clients' download ids
+async function findDownload(
+  req: Request,
+  downloadId: string,
+): Promise<DownloadRecord | null> {
+  const record = await downloadService.getDownloadStatus(downloadId);
+  if (!record || !canAccessClient(req.principal, record.clientId)) {
+    return null;
+  }
+  return record;
+}
 
 export async function triggerDownload(
   req: Request,
@@ -33,7 +50,7 @@ export async function triggerDownload(
     }
 
     // Validate request body
-    const { error: bodyError, value } = triggerDownloadSchema.validate(
+    const { error: bodyError, value } = downloadRequestSchema.validate(
       req.body || {},
     );
     if (bodyError) {
@@ -43,22 +60,91 @@ export async function triggerDownload(
       return;
     }
 
-    const meta = value.requestedBy
-      ? { requestedBy: value.requestedBy }
-      : undefined;
+    // Only registered agents can receive commands
+    const client = await clientService.getClient(clientId);
+    if (!client) {
+      await auditService.recordRequest(
+        req,
+        "download.trigger",
+        "failure",
+        { clientId },
+        { error: "Client not found" },
+      );
+      res.status(404).json({ error: "Client not found", clientId });
+      return;
+    }
+
+    const queued = client.status !== "online";
+    if (queued && !value.queueIfOffline) {
+      await auditService.recordRequest(
+        req,
+        "download.trigger",
+        "failure",
+        { clientId },
+        { error: "Client is not online" },
+      );
+      res.status(409).json({
+        error: "Client is not online",
+        clientId,
+        status: client.status,
+        lastSeenAt: client.lastSeenAt,
+      });
+      return;
+    }
+
+    // The key is the requester; a requestedBy in the body is kept as the
+    // person it acts for
+    const meta = {
+      requestedBy: req.principal?.name,
+      apiKeyId: req.principal?.keyId,
+      onBehalfOf: value.requestedBy,
+      reason: value.reason,
+      ticket: value.ticket,
+      tags: value.tags,
+    };
+
+    const built = await buildDownloadOptions(value);
+    if ("error" in built) {
+      res.status(400).json(built);
+      return;
+    }
+    const { options } = built;
 
     // Pass originalFilename to service
     const record = await downloadService.triggerDownload(
       clientId,
       value.originalFilename,
       meta,
+      queued,
+      options,
     );
 
-    res.status(200).json({
+    await auditService.recordRequest(
+      req,
+      "download.trigger",
+      "success",
+      { downloadId: record.downloadId, clientId },
+      {
+        queued,
+        file: value.filePath || value.fileName,
+        archive: value.archive?.paths,
+        compression: value.compression,
+        encryptionFingerprint: options.encryption?.fingerprint,
+        onBehalfOf: value.requestedBy,
+        ticket: value.ticket,
+      },
+    );
+
+    // Not sent yet: waiting for the client, or for a free slot
+    const accepted = queued || record.status === "queued";
+    res.status(accepted ? 202 : 200).json({
       ok: true,
       downloadId: record.downloadId,
+      status: record.status,
       objectKey: record.objectKey,
       expiresAt: record.expiresAt,
+      queued,
+      queuePosition: record.queuePosition,
     });
   } catch (error) {
     logger.error("Error in triggerDownload controller:", error);
@@ -83,29 +169,237 @@ export async function getDownloadStatus(
     }
 
     // Await the async service call
-    const record = await downloadService.getDownloadStatus(downloadId);
+    const record = await findDownload(req, downloadId);
 
     if (!record) {
       res.status(404).json({ error: "Download not found" });
       return;
     }
 
+    // Retried requests list every attempt, so any of them leads to the rest
+    const attempts = await downloadService.listAttempts(downloadId);
+
     // Return record without presignedUrl (security)
     const { presignedUrl, ...publicRecord } = record;
-    res.status(200).json(publicRecord);
+    res.status(200).json({
+      ...publicRecord,
+      attempts: attempts && attempts.length > 1 ? attempts : undefined,
+    });
   } catch (error) {
     logger.error("Error in getDownloadStatus controller:", error);
     res.status(500).json({ error: "Internal server error" });
   }
 }
 
-export async function listClients(req: Request, res: Response): Promise<void> {
+const cancelDownloadSchema = Joi.object({
+  reason: Joi.string().max(500).optional(),
+});
+
+export async function cancelDownload(
+  req: Request,
+  res: Response,
+): Promise<void> {
   try {
-    // Current implementation of getClientIds is async stub
-    const clientIds = await downloadService.getClientIds();
-    res.status(200).json({ clients: clientIds });
+    const { downloadId } = req.params;
+
+    // Validate downloadId
+    const { error } = downloadIdSchema.validate(downloadId);
+    if (error) {
+      res
+        .status(400)
+        .json({ error: "Invalid downloadId format", details: error.message });
+      return;
+    }
+
+    const { error: bodyError, value } = cancelDownloadSchema.validate(
+      req.body || {},
+    );
+    if (bodyError) {
+      res
+        .status(400)
+        .json({ error: "Invalid request body", details: bodyError.message });
+      return;
+    }
+
+    const current = await findDownload(req, downloadId);
+
+    if (!current) {
+      await auditService.recordRequest(
+        req,
+        "download.cancel",
+        "failure",
+        { downloadId },
+        { error: "Download not found" },
+      );
+      res.status(404).json({ error: "Download not found" });
+      return;
+    }
+
+    const result = await downloadService.cancelDownload(
+      downloadId,
+      value.reason,
+    );
+    if (!result) {
+      res.status(404).json({ error: "Download not found" });
+      return;
+    }
+
+    // Decided by the update itself, so a download finishing meanwhile is
+    // reported rather than overwritten
+    if (!result.cancelled) {
+      await auditService.recordRequest(
+        req,
+        "download.cancel",
+        "failure",
+        { downloadId, clientId: current.clientId },
+        { error: "Download already finished", status: result.record.status },
+      );
+      res.status(409).json({
+        error: "Download already finished",
+        status: result.record.status,
+      });
+      return;
+    }
+
+    await auditService.recordRequest(
+      req,
+      "download.cancel",
+      "success",
+      { downloadId, clientId: current.clientId },
+      value.reason ? { reason: value.reason } : undefined,
+    );
+
+    res.status(200).json(result.record);
   } catch (error) {
-    logger.error("Error in listClients controller:", error);
+    logger.error("Error in cancelDownload controller:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+}
+
+const retryDownloadSchema = Joi.object({
+  queueIfOffline: Joi.boolean().optional(),
+});
+
+async function rejectRetry(
+  req: Request,
+  res: Response,
+  current: DownloadRecord,
+  status: number,
+  body: { error: string } & Record<string, unknown>,
+): Promise<void> {
+  await auditService.recordRequest(
+    req,
+    "download.retry",
+    "failure",
+    { downloadId: current.downloadId, clientId: current.clientId },
+    { error: body.error },
+  );
+  res.status(status).json(body);
+}
+
+export async function retryDownload(
+  req: Request,
+  res: Response,
+): Promise<void> {
+  try {
+    const { downloadId } = req.params;
+
+    const { error } = downloadIdSchema.validate(downloadId);
+    if (error) {
+      res
+        .status(400)
+        .json({ error: "Invalid downloadId format", details: error.message });
+      return;
+    }
+
+    const { error: bodyError, value } = retryDownloadSchema.validate(
+      req.body || {},
+    );
+    if (bodyError) {
+      res
+        .status(400)
+        .json({ error: "Invalid request body", details: bodyError.message });
+      return;
+    }
+
+    const current = await findDownload(req, downloadId);
+    if (!current) {
+      res.status(404).json({ error: "Download not found" });
+      return;
+    }
+
+    if (!RETRYABLE_STATUSES.includes(current.status)) {
+      await rejectRetry(req, res, current, 409, {
+        error: "Only failed, expired or cancelled downloads can be retried",
+        status: current.status,
+      });
+      return;
+    }
+
+    // Retry the latest attempt only, so a request has one live attempt
+    const attempts = (await downloadService.listAttempts(downloadId)) || [];
+    const latest = attempts[attempts.length - 1];
+    if (latest && latest.downloadId !== downloadId) {
+      await rejectRetry(req, res, current, 409, {
+        error: "Download was already retried",
+        latestDownloadId: latest.downloadId,
+      });
+      return;
+    }
+
+    const client = await clientService.getClient(current.clientId);
+    if (!client) {
+      await rejectRetry(req, res, current, 404, {
+        error: "Client not found",
+        clientId: current.clientId,
+      });
+      return;
+    }
+
+    const queued = client.status !== "online";
+    if (queued && !value.queueIfOffline) {
+      await rejectRetry(req, res, current, 409, {
+        error: "Client is not online",
+        clientId: current.clientId,
+        status: client.status,
+        lastSeenAt: client.lastSeenAt,
+      });
+      return;
+    }
+
+    const record = await downloadService.retryDownload(
+      downloadId,
+      { requestedBy: req.principal?.name, apiKeyId: req.principal?.keyId },
+      queued,
+    );
+    if (!record) {
+      res.status(404).json({ error: "Download not found" });
+      return;
+    }
+
+    await auditService.recordRequest(
+      req,
+      "download.retry",
+      "success",
+      { downloadId: record.downloadId, clientId: record.clientId },
+      { parentDownloadId: downloadId, attempt: record.attempt, queued },
+    );
+
+    const accepted = queued || record.status === "queued";
+    res.status(accepted ? 202 : 200).json({
+      ok: true,
+      downloadId: record.downloadId,
+      status: record.status,
+      parentDownloadId: downloadId,
+      rootDownloadId: record.rootDownloadId,
+      attempt: record.attempt,
+      objectKey: record.objectKey,
+      expiresAt: record.expiresAt,
+      queued,
+      queuePosition: record.queuePosition,
+    });
+  } catch (error) {
+    logger.error("Error in retryDownload controller:", error);
     res.status(500).json({ error: "Internal server error" });
   }
 }
@@ -123,18 +417,37 @@ export async function getArtifact(req: Request, res: Response): Promise<void> {
       return;
     }
 
-    const url = await downloadService.getArtifactUrl(downloadId);
+    const download = await findDownload(req, downloadId);
+    const url = download
+      ? await downloadService.getArtifactUrl(downloadId)
+      : null;
 
     if (!url) {
+      await auditService.recordRequest(
+        req,
+        "artifact.url",
+        "failure",
+        { downloadId, clientId: download?.clientId },
+        { error: "Artifact not available" },
+      );
       res
         .status(404)
         .json({ error: "Artifact not available or download not verified" });
       return;
     }
 
+    const manifest = await downloadService.getManifest(downloadId);
+    await auditService.recordRequest(req, "artifact.url", "success", {
+      downloadId,
+      clientId: download?.clientId,
+    });
+
     res.status(200).json({
       downloadId,
       artifactUrl: url,
+      manifestUrl: manifest
+        ? `/download/${downloadId}/artifacts/manifest`
+        : undefined,
       expiresIn: 3600, // 1 hour
     });
   } catch (error) {
@@ -143,8 +456,200 @@ export async function getArtifact(req: Request, res: Response): Promise<void> {
   }
 }
 
+export async function getArtifactManifest(
+  req: Request,
+  res: Response,
+): Promise<void> {
+  try {
+    const { downloadId } = req.params;
+
+    const { error } = downloadIdSchema.validate(downloadId);
+    if (error) {
+      res
+        .status(400)
+        .json({ error: "Invalid downloadId format", details: error.message });
+      return;
+    }
+
+    const download = await findDownload(req, downloadId);
+    const manifest = download
+      ? await downloadService.getManifest(downloadId)
+      : null;
+
+    if (!manifest) {
+      await auditService.recordRequest(
+        req,
+        "artifact.manifest",
+        "failure",
+        { downloadId, clientId: download?.clientId },
+        { error: "Manifest not available" },
+      );
+      res
+        .status(404)
+        .json({ error: "Manifest not available for this download" });
+      return;
+    }
+
+    await auditService.recordRequest(req, "artifact.manifest", "success", {
+      downloadId,
+      clientId: download?.clientId,
+    });
+    res.status(200).json({ downloadId, files: manifest });
+  } catch (error) {
+    logger.error("Error in getArtifactManifest controller:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+}
+
 export async function healthCheck(req: Request, res: Response): Promise<void> {
   res
     .status(200)
     .json({ status: "healthy", timestamp: new Date().toISOString() });
 }
+
+export async function streamDownloadEvents(
+  req: Request,
+  res: Response,
+): Promise<void> {
+  try {
+    const { downloadId } = req.params;
+
+    // Validate downloadId
+    const { error } = downloadIdSchema.validate(downloadId);
+    if (error) {
+      res
+        .status(400)
+        .json({ error: "Invalid downloadId format", details: error.message });
+      return;
+    }
+
+    const record = await findDownload(req, downloadId);
+
+    if (!record) {
+      res.status(404).json({ error: "Download not found" });
+      return;
+    }
+
+    let unsubscribe = () => {};
+    const stream = openEventStream(req, res, () => unsubscribe());
+
+    // Current state first, so clients don't need a separate GET
+    stream.send("status", record);
+    if (TERMINAL_STATUSES.includes(record.status)) {
+      stream.close();
+      return;
+    }
+
+    unsubscribe = downloadService.onUpdate((type, update) => {
+      if (update.downloadId !== downloadId) return;
+
+      stream.send(type, update);
+      if (TERMINAL_STATUSES.includes(update.status)) {
+        stream.close();
+      }
+    });
+  } catch (error) {
+    logger.error("Error in streamDownloadEvents controller:", error);
+    if (!res.headersSent) {
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+}
+
+const streamEventsQuerySchema = Joi.object({
+  clientId: clientIdSchema.optional(),
+});
+
+export async function streamEvents(req: Request, res: Response): Promise<void> {
+  const { error, value } = streamEventsQuerySchema.validate(req.query);
+  if (error) {
+    res
+      .status(400)
+      .json({ error: "Invalid query parameters", details: error.message });
+    return;
+  }
+
+  let unsubscribe = () => {};
+  const stream = openEventStream(req, res, () => unsubscribe());
+
+  unsubscribe = downloadService.onUpdate((type, update) => {
+    if (value.clientId && update.clientId !== value.clientId) return;
+    if (!canAccessClient(req.principal, update.clientId)) return;
+    stream.send(type, update);
+  });
+}
+
+const listDownloadsQuerySchema = Joi.object({
+  clientId: clientIdSchema.optional(),
+  status: Joi.array()
+    .items(
+      Joi.string().valid(
+        "queued",
+        "pending",
+        "uploaded",
+        "verified",
+        "failed",
+        "expired",
+        "cancelled",
+      ),
+    )
+    .single()
+    .optional(),
+  requestedBy: Joi.string().max(255).optional(),
+  onBehalfOf: Joi.string().max(255).optional(),
+  ticket: Joi.string().max(128).optional(),
+  reason: Joi.string().max(500).optional(),
+  // `key:value`, repeatable; downloads must carry every tag given
+  tag: tagFilterSchema.optional(),
+  createdFrom: Joi.date().iso().optional(),
+  createdTo: Joi.date().iso().optional(),
+  filename: Joi.string().max(255).optional(),
+  sort: Joi.string().valid("createdAt", "updatedAt").default("createdAt"),
+  order: Joi.string().valid("asc", "desc").default("desc"),
+  limit: Joi.number().integer().min(1).max(200).default(50),
+  cursor: Joi.string().max(512).optional(),
+});
+
+export async function listDownloads(
+  req: Request,
+  res: Response,
+): Promise<void> {
+  try {
+    // `status` may be repeated or comma-separated
+    const query = { ...req.query, ...req.params };
+    if (typeof query.status === "string") {
+      query.status = query.status.split(",");
+    }
+
+    const { error, value } = listDownloadsQuerySchema.validate(query, {
+      convert: true,
+    });
+    if (error) {
+      res
+        .status(400)
+        .json({ error: "Invalid query parameters", details: error.message });
+      return;
+    }
+
+    const { tag, ...filters } = value;
+    const tags = parseTagFilters(tag);
+
+    const page = await downloadService.listDownloads({
+      ...filters,
+      tags,
+      clientIds: req.principal?.clientIds ?? undefined,
+      createdFrom: value.createdFrom?.toISOString(),
+      createdTo: value.createdTo?.toISOString(),
+    });
+
+    if (!page) {
+      res.status(400).json({ error: "Invalid cursor" });
+      return;
+    }
+
+    res.status(200).json(page);
+  } catch (error) {
+    logger.error("Error in listDownloads controller:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+}
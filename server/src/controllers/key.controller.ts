@@ -0,0 +1,78 @@
+import { Request, Response } from "express";
+import Joi from "joi";
+import keyService from "../services/key.service";
+import logger from "../utils/logger";
+
+const createKeySchema = Joi.object({
+  name: Joi.string().max(128).optional(),
+  // PEM; omit to have the server generate a pair
+  publicKey: Joi.string().max(16384).optional(),
+});
+
+const keyIdSchema = Joi.string().uuid().required();
+
+export async function createKey(req: Request, res: Response): Promise<void> {
+  try {
+    const { error, value } = createKeySchema.validate(req.body || {});
+    if (error) {
+      res
+        .status(400)
+        .json({ error: "Invalid request body", details: error.message });
+      return;
+    }
+
+    if (value.publicKey) {
+      try {
+        keyService.inspectPublicKey(value.publicKey);
+      } catch (err) {
+        res.status(400).json({
+          error: "Invalid public key",
+          details: err instanceof Error ? err.message : String(err),
+        });
+        return;
+      }
+    }
+
+    const key = await keyService.createKey(value.name, value.publicKey);
+    res.status(201).json(key);
+  } catch (error) {
+    logger.error("Error in createKey controller:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+}
+
+export async function listKeys(req: Request, res: Response): Promise<void> {
+  try {
+    const keys = await keyService.listKeys();
+    res.status(200).json({ keys });
+  } catch (error) {
+    logger.error("Error in listKeys controller:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+}
+
+export async function getKey(req: Request, res: Response): Promise<void> {
+  try {
+    const { keyId } = req.params;
+
+    const { error } = keyIdSchema.validate(keyId);
+    if (error) {
+      res
+        .status(400)
+        .json({ error: "Invalid keyId format", details: error.message });
+      return;
+    }
+
+    const key = await keyService.getKey(keyId);
+
+    if (!key) {
+      res.status(404).json({ error: "Encryption key not found" });
+      return;
+    }
+
+    res.status(200).json(key);
+  } catch (error) {
+    logger.error("Error in getKey controller:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+}
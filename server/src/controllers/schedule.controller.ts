@@ -0,0 +1,319 @@
+import { Request, Response } from "express";
+import Joi from "joi";
+import scheduleService from "../services/schedule.service";
+import auditService from "../services/audit.service";
+import logger from "../utils/logger";
+import { clientIdSchema } from "../utils/validation";
+import {
+  buildDownloadOptions,
+  downloadRequestSchema,
+} from "../utils/download-request";
+import { canAccessClient } from "../middleware/auth.middleware";
+import { ScheduleRecord } from "../models/schedule.model";
+
+// IANA zone names such as "Europe/Berlin"; rejected when unknown to Intl
+const timezoneSchema = Joi.string()
+  .max(64)
+  .custom((value: string) => {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return value;
+  }, "IANA timezone")
+  .messages({ "any.custom": "{{#label}} must be a valid IANA timezone" });
+
+const scheduleFields = {
+  name: Joi.string().max(128),
+  // Five fields, or six with leading seconds
+  cron: Joi.string().max(128),
+  timezone: timezoneSchema,
+  clientIds: Joi.array().items(clientIdSchema).min(1).max(100).unique(),
+  enabled: Joi.boolean(),
+};
+
+const createScheduleSchema = downloadRequestSchema.keys({
+  name: scheduleFields.name.required(),
+  cron: scheduleFields.cron.required(),
+  timezone: scheduleFields.timezone.default("UTC"),
+  clientIds: scheduleFields.clientIds.required(),
+  enabled: scheduleFields.enabled.default(true),
+});
+
+// What a schedule requests can't be changed; create a new one instead
+const updateScheduleSchema = Joi.object(scheduleFields).min(1);
+
+const listRunsQuerySchema = Joi.object({
+  limit: Joi.number().integer().min(1).max(500).default(50),
+  cursor: Joi.string().pattern(/^\d+$/).max(20).optional(),
+});
+
+const scheduleIdSchema = Joi.string().uuid().required();
+
+// Returns the 400 message for an expression cron-parser rejects
+function checkCron(cron: string, timezone: string): string | null {
+  try {
+    scheduleService.nextRun(cron, timezone);
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+}
+
+function canAccessSchedule(req: Request, schedule: ScheduleRecord): boolean {
+  return schedule.clientIds.every((id) => canAccessClient(req.principal, id));
+}
+
+// Schedules targeting a client the caller's key is not limited to are
+// reported as not found, like downloads
+async function findSchedule(
+  req: Request,
+  res: Response,
+): Promise<ScheduleRecord | null> {
+  const { scheduleId } = req.params;
+
+  const { error } = scheduleIdSchema.validate(scheduleId);
+  if (error) {
+    res
+      .status(400)
+      .json({ error: "Invalid scheduleId format", details: error.message });
+    return null;
+  }
+
+  const schedule = await scheduleService.getSchedule(scheduleId);
+  if (!schedule || !canAccessSchedule(req, schedule)) {
+    res.status(404).json({ error: "Schedule not found" });
+    return null;
+  }
+  return schedule;
+}
+
+export async function createSchedule(
+  req: Request,
+  res: Response,
+): Promise<void> {
+  try {
+    const { error, value } = createScheduleSchema.validate(req.body || {});
+    if (error) {
+      res
+        .status(400)
+        .json({ error: "Invalid request body", details: error.message });
+      return;
+    }
+
+    const cronError = checkCron(value.cron, value.timezone);
+    if (cronError) {
+      res
+        .status(400)
+        .json({ error: "Invalid cron expression", details: cronError });
+      return;
+    }
+
+    const denied = value.clientIds.filter(
+      (id: string) => !canAccessClient(req.principal, id),
+    );
+    if (denied.length > 0) {
+      res.status(403).json({
+        error: "API key is not allowed to access these clients",
+        clientIds: denied,
+      });
+      return;
+    }
+
+    // Resolved now, so later key registry changes don't alter the schedule
+    const built = await buildDownloadOptions(value);
+    if ("error" in built) {
+      res.status(400).json(built);
+      return;
+    }
+
+    const schedule = await scheduleService.createSchedule(
+      {
+        name: value.name,
+        cron: value.cron,
+        timezone: value.timezone,
+        clientIds: value.clientIds,
+        enabled: value.enabled,
+        request: {
+          originalFilename: value.originalFilename,
+          options: built.options,
+          queueIfOffline: value.queueIfOffline,
+          onBehalfOf: value.requestedBy,
+          reason: value.reason,
+          ticket: value.ticket,
+          tags: value.tags,
+        },
+      },
+      req.principal,
+    );
+
+    await auditService.recordRequest(
+      req,
+      "schedule.create",
+      "success",
+      {},
+      {
+        scheduleId: schedule.scheduleId,
+        name: schedule.name,
+        cron: schedule.cron,
+        timezone: schedule.timezone,
+        clientIds: schedule.clientIds,
+      },
+    );
+
+    res.status(201).json(schedule);
+  } catch (error) {
+    logger.error("Error in createSchedule controller:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+}
+
+export async function listSchedules(
+  req: Request,
+  res: Response,
+): Promise<void> {
+  try {
+    const schedules = await scheduleService.listSchedules();
+    res.status(200).json({
+      schedules: schedules.filter((s) => canAccessSchedule(req, s)),
+    });
+  } catch (error) {
+    logger.error("Error in listSchedules controller:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+}
+
+export async function getSchedule(req: Request, res: Response): Promise<void> {
+  try {
+    const schedule = await findSchedule(req, res);
+    if (!schedule) return;
+
+    res.status(200).json(schedule);
+  } catch (error) {
+    logger.error("Error in getSchedule controller:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+}
+
+export async function updateSchedule(
+  req: Request,
+  res: Response,
+): Promise<void> {
+  try {
+    const schedule = await findSchedule(req, res);
+    if (!schedule) return;
+
+    const { error, value } = updateScheduleSchema.validate(req.body || {});
+    if (error) {
+      res
+        .status(400)
+        .json({ error: "Invalid request body", details: error.message });
+      return;
+    }
+
+    const cronError = checkCron(
+      value.cron ?? schedule.cron,
+      value.timezone ?? schedule.timezone,
+    );
+    if (cronError) {
+      res
+        .status(400)
+        .json({ error: "Invalid cron expression", details: cronError });
+      return;
+    }
+
+    const denied = (value.clientIds || []).filter(
+      (id: string) => !canAccessClient(req.principal, id),
+    );
+    if (denied.length > 0) {
+      res.status(403).json({
+        error: "API key is not allowed to access these clients",
+        clientIds: denied,
+      });
+      return;
+    }
+
+    const updated = await scheduleService.updateSchedule(
+      schedule.scheduleId,
+      value,
+    );
+    if (!updated) {
+      res.status(404).json({ error: "Schedule not found" });
+      return;
+    }
+
+    await auditService.recordRequest(
+      req,
+      "schedule.update",
+      "success",
+      {},
+      { scheduleId: schedule.scheduleId, changes: value },
+    );
+
+    res.status(200).json(updated);
+  } catch (error) {
+    logger.error("Error in updateSchedule controller:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+}
+
+export async function deleteSchedule(
+  req: Request,
+  res: Response,
+): Promise<void> {
+  try {
+    const schedule = await findSchedule(req, res);
+    if (!schedule) return;
+
+    const deleted = await scheduleService.deleteSchedule(schedule.scheduleId);
+    if (!deleted) {
+      res.status(404).json({ error: "Schedule not found" });
+      return;
+    }
+
+    await auditService.recordRequest(
+      req,
+      "schedule.delete",
+      "success",
+      {},
+      { scheduleId: schedule.scheduleId, name: schedule.name },
+    );
+
+    res.status(200).json(deleted);
+  } catch (error) {
+    logger.error("Error in deleteSchedule controller:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+}
+
+export async function listScheduleRuns(
+  req: Request,
+  res: Response,
+): Promise<void> {
+  try {
+    const schedule = await findSchedule(req, res);
+    if (!schedule) return;
+
+    const { error, value } = listRunsQuerySchema.validate(req.query, {
+      convert: true,
+    });
+    if (error) {
+      res
+        .status(400)
+        .json({ error: "Invalid query parameters", details: error.message });
+      return;
+    }
+
+    const page = await scheduleService.listRuns(
+      schedule.scheduleId,
+      value.limit,
+      value.cursor ? parseInt(value.cursor, 10) : undefined,
+    );
+    if (!page) {
+      res.status(404).json({ error: "Schedule not found" });
+      return;
+    }
+
+    res.status(200).json(page);
+  } catch (error) {
+    logger.error("Error in listScheduleRuns controller:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+}
@@ -4,8 +4,19 @@ import cors from "cors";
 import storageService from "./services/storage.service";
 import brokerService from "./services/broker.service";
 import downloadService from "./services/download.service";
-import { authMiddleware } from "./middleware/auth.middleware";
+import clientService from "./services/client.service";
+import reaperService from "./services/reaper.service";
+import schedulerService from "./services/scheduler.service";
+import batchService from "./services/batch.service";
+import { authMiddleware, requireScope } from "./middleware/auth.middleware";
+import { idempotency } from "./middleware/idempotency.middleware";
 import * as downloadController from "./controllers/download.controller";
+import * as clientController from "./controllers/client.controller";
+import * as keyController from "./controllers/key.controller";
+import * as apiKeyController from "./controllers/api-key.controller";
+import * as auditController from "./controllers/audit.controller";
+import * as scheduleController from "./controllers/schedule.controller";
+import * as batchController from "./controllers/batch.controller";
 import logger from "./utils/logger";
 
 // Load environment variables
@@ -25,19 +36,179 @@ app.get("/health", downloadController.healthCheck);
 app.post(
   "/download/:clientId",
   authMiddleware,
+  requireScope("downloads:trigger"),
+  idempotency,
   downloadController.triggerDownload,
 );
+app.get(
+  "/downloads",
+  authMiddleware,
+  requireScope("downloads:read"),
+  downloadController.listDownloads,
+);
 app.get(
   "/downloads/:downloadId",
   authMiddleware,
+  requireScope("downloads:read"),
   downloadController.getDownloadStatus,
 );
-app.get("/clients", authMiddleware, downloadController.listClients);
+app.get(
+  "/downloads/:downloadId/events",
+  authMiddleware,
+  requireScope("downloads:read"),
+  downloadController.streamDownloadEvents,
+);
+app.get(
+  "/events",
+  authMiddleware,
+  requireScope("downloads:read"),
+  downloadController.streamEvents,
+);
+app.post(
+  "/downloads/:downloadId/retry",
+  authMiddleware,
+  requireScope("downloads:trigger"),
+  downloadController.retryDownload,
+);
+app.delete(
+  "/downloads/:downloadId",
+  authMiddleware,
+  requireScope("downloads:trigger"),
+  downloadController.cancelDownload,
+);
+app.post(
+  "/schedules",
+  authMiddleware,
+  requireScope("downloads:trigger"),
+  scheduleController.createSchedule,
+);
+app.get(
+  "/schedules",
+  authMiddleware,
+  requireScope("downloads:read"),
+  scheduleController.listSchedules,
+);
+app.get(
+  "/schedules/:scheduleId",
+  authMiddleware,
+  requireScope("downloads:read"),
+  scheduleController.getSchedule,
+);
+app.patch(
+  "/schedules/:scheduleId",
+  authMiddleware,
+  requireScope("downloads:trigger"),
+  scheduleController.updateSchedule,
+);
+app.delete(
+  "/schedules/:scheduleId",
+  authMiddleware,
+  requireScope("downloads:trigger"),
+  scheduleController.deleteSchedule,
+);
+app.get(
+  "/schedules/:scheduleId/runs",
+  authMiddleware,
+  requireScope("downloads:read"),
+  scheduleController.listScheduleRuns,
+);
+app.post(
+  "/batches",
+  authMiddleware,
+  requireScope("downloads:trigger"),
+  idempotency,
+  batchController.createBatch,
+);
+app.get(
+  "/batches/:batchId",
+  authMiddleware,
+  requireScope("downloads:read"),
+  batchController.getBatch,
+);
+app.get(
+  "/clients",
+  authMiddleware,
+  requireScope("clients:read"),
+  clientController.listClients,
+);
+app.get(
+  "/clients/:clientId",
+  authMiddleware,
+  requireScope("clients:read"),
+  clientController.getClient,
+);
+app.get(
+  "/clients/:clientId/files",
+  authMiddleware,
+  requireScope("clients:read"),
+  clientController.listClientFiles,
+);
+app.get(
+  "/clients/:clientId/downloads",
+  authMiddleware,
+  requireScope("downloads:read"),
+  downloadController.listDownloads,
+);
 app.get(
   "/download/:downloadId/artifacts",
   authMiddleware,
+  requireScope("artifacts:read"),
   downloadController.getArtifact,
 );
+app.get(
+  "/download/:downloadId/artifacts/manifest",
+  authMiddleware,
+  requireScope("artifacts:read"),
+  downloadController.getArtifactManifest,
+);
+app.post(
+  "/encryption-keys",
+  authMiddleware,
+  requireScope("admin"),
+  keyController.createKey,
+);
+app.get(
+  "/encryption-keys",
+  authMiddleware,
+  requireScope("downloads:read"),
+  keyController.listKeys,
+);
+app.get(
+  "/encryption-keys/:keyId",
+  authMiddleware,
+  requireScope("downloads:read"),
+  keyController.getKey,
+);
+app.post(
+  "/api-keys",
+  authMiddleware,
+  requireScope("admin"),
+  apiKeyController.createApiKey,
+);
+app.get(
+  "/api-keys",
+  authMiddleware,
+  requireScope("admin"),
+  apiKeyController.listApiKeys,
+);
+app.get(
+  "/api-keys/:keyId",
+  authMiddleware,
+  requireScope("admin"),
+  apiKeyController.getApiKey,
+);
+app.delete(
+  "/api-keys/:keyId",
+  authMiddleware,
+  requireScope("admin"),
+  apiKeyController.revokeApiKey,
+);
+app.get(
+  "/audit",
+  authMiddleware,
+  requireScope("audit:read"),
+  auditController.listAuditEntries,
+);
 
 async function startServer() {
   try {
@@ -47,11 +218,40 @@ async function startServer() {
     await storageService.ensureBucket();
     await brokerService.connect();
 
-    // Subscribe to upload events
+    // Subscribe to agent events (uploads and heartbeats)
     await brokerService.subscribeToEvents((event) => {
-      downloadService.handleUploadComplete(event);
+      switch (event.event) {
+        case "agent_register":
+        case "agent_heartbeat":
+        case "agent_offline":
+          clientService.handleHeartbeat(event);
+          break;
+        case "upload_progress":
+          downloadService.handleUploadProgress(event);
+          break;
+        case "file_list":
+          clientService.handleFileList(event);
+          break;
+        case "url_refresh":
+          downloadService.handleUrlRefresh(event);
+          break;
+        default:
+          downloadService.handleUploadComplete(event);
+      }
     });
 
+    // Send downloads that were queued for a slot before a restart
+    await downloadService.dispatchQueued();
+
+    // Expire downloads whose client never answered
+    reaperService.start();
+
+    // Fire scheduled downloads, including any that came due while down
+    schedulerService.start();
+
+    // Continue batches interrupted by a restart
+    batchService.start();
+
     // Start HTTP server
     app.listen(port, "0.0.0.0", () => {
       logger.info(`Server listening on port ${port}`);
@@ -66,12 +266,18 @@ async function startServer() {
 // Graceful shutdown
 process.on("SIGTERM", async () => {
   logger.info("SIGTERM received, shutting down gracefully...");
+  reaperService.stop();
+  schedulerService.stop();
+  batchService.stop();
   await brokerService.disconnect();
   process.exit(0);
 });
 
 process.on("SIGINT", async () => {
   logger.info("SIGINT received, shutting down gracefully...");
+  reaperService.stop();
+  schedulerService.stop();
+  batchService.stop();
   await brokerService.disconnect();
   process.exit(0);
 });
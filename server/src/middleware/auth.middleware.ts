@@ -1,11 +1,14 @@
 import { Request, Response, NextFunction } from "express";
+import apiKeyService from "../services/api-key.service";
+import auditService from "../services/audit.service";
 import logger from "../utils/logger";
+import { ApiKeyScope, Principal } from "../models/api-key.model";
 
-export function authMiddleware(
+export async function authMiddleware(
   req: Request,
   res: Response,
   next: NextFunction,
-): void {
+): Promise<void> {
   const authHeader = req.headers.authorization;
 
   if (!authHeader || !authHeader.startsWith("Bearer ")) {
@@ -19,19 +22,72 @@ export function authMiddleware(
   }
 
   const token = authHeader.substring(7); // Remove 'Bearer ' prefix
-  const expectedToken = process.env.SERVER_API_KEY;
 
-  if (!expectedToken) {
-    logger.error("SERVER_API_KEY not configured");
-    res.status(500).json({ error: "Server configuration error" });
-    return;
-  }
+  try {
+    const principal = await apiKeyService.authenticate(token);
+
+    if (!principal) {
+      logger.warn("Authentication failed: invalid API key");
+      res.status(401).json({ error: "Unauthorized: invalid API key" });
+      return;
+    }
 
-  if (token !== expectedToken) {
-    logger.warn("Authentication failed: invalid API key");
-    res.status(401).json({ error: "Unauthorized: invalid API key" });
+    req.principal = principal;
+  } catch (error) {
+    logger.error("Error authenticating request:", error);
+    res.status(500).json({ error: "Internal server error" });
     return;
   }
 
   next();
 }
+
+export function hasScope(
+  principal: Principal | undefined,
+  scope: ApiKeyScope,
+): boolean {
+  return (
+    !!principal &&
+    (principal.scopes.includes(scope) || principal.scopes.includes("admin"))
+  );
+}
+
+// Keys without a client restriction may act on every client
+export function canAccessClient(
+  principal: Principal | undefined,
+  clientId: string,
+): boolean {
+  return (
+    !!principal &&
+    (principal.clientIds === null || principal.clientIds.includes(clientId))
+  );
+}
+
+/**
+ * Requires `scope` on the authenticated key. For routes with a :clientId
+ * parameter the key must also be allowed to act on that client.
+ */
+export function requireScope(scope: ApiKeyScope) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const { clientId } = req.params;
+    const denied = !hasScope(req.principal, scope)
+      ? `Forbidden: requires scope ${scope}`
+      : clientId && !canAccessClient(req.principal, clientId)
+        ? "Forbidden: client not allowed"
+        : null;
+
+    if (denied) {
+      auditService.recordRequest(
+        req,
+        "access.denied",
+        "denied",
+        { clientId, downloadId: req.params.downloadId },
+        { method: req.method, path: req.path, reason: denied },
+      );
+      res.status(403).json({ error: denied });
+      return;
+    }
+
+    next();
+  };
+}
@@ -0,0 +1,90 @@
+import { Request, Response, NextFunction } from "express";
+import idempotencyService from "../services/idempotency.service";
+import logger from "../utils/logger";
+
+const KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;
+
+/**
+ * Honours an `Idempotency-Key` header: the first request with a key runs
+ * normally and its successful response is stored; repeats with the same
+ * body get that response again (flagged with `Idempotent-Replayed: true`)
+ * instead of running the handler. Requests that end in an error release
+ * the key so they can be retried with it. Must run after authMiddleware.
+ */
+export async function idempotency(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  const key = req.get("Idempotency-Key");
+  if (key === undefined) {
+    next();
+    return;
+  }
+
+  if (!KEY_PATTERN.test(key)) {
+    res.status(400).json({
+      error: "Invalid Idempotency-Key header",
+      details: "must be 1-255 printable ASCII characters",
+    });
+    return;
+  }
+
+  const apiKeyId = req.principal!.keyId;
+  const fingerprint = idempotencyService.fingerprint(
+    req.method,
+    req.baseUrl + req.path,
+    req.body,
+  );
+
+  let reservation;
+  try {
+    reservation = await idempotencyService.reserve(apiKeyId, key, fingerprint);
+  } catch (error) {
+    logger.error("Error reserving idempotency key:", error);
+    res.status(500).json({ error: "Internal server error" });
+    return;
+  }
+
+  switch (reservation.state) {
+    case "mismatch":
+      res.status(422).json({
+        error: "Idempotency-Key was already used with a different request",
+      });
+      return;
+    case "in_progress":
+      res.status(409).json({
+        error: "A request with this Idempotency-Key is still in progress",
+      });
+      return;
+    case "replay":
+      res.setHeader("Idempotent-Replayed", "true");
+      res.status(reservation.statusCode).json(reservation.body);
+      return;
+  }
+
+  // Record the handler's response as it is produced, even if the caller
+  // has already hung up, since the download exists either way
+  let responded = false;
+  const settle = (statusCode: number, body?: unknown) => {
+    responded = true;
+    const stored =
+      statusCode < 300
+        ? idempotencyService.complete(apiKeyId, key, statusCode, body)
+        : idempotencyService.release(apiKeyId, key);
+    stored.catch((error) => {
+      logger.error(`Error recording idempotency key ${key}:`, error);
+    });
+  };
+
+  const json = res.json.bind(res);
+  res.json = (body: unknown) => {
+    if (!responded) settle(res.statusCode, body);
+    return json(body);
+  };
+  res.on("close", () => {
+    if (!responded) settle(500);
+  });
+
+  next();
+}
@@ -0,0 +1,48 @@
+// API keys authenticate callers of the HTTP API. Secrets are only stored
+// hashed; the token is shown once, when the key is created.
+
+export const API_KEY_SCOPES = [
+  "downloads:trigger",
+  "downloads:read",
+  "artifacts:read",
+  "clients:read",
+  "audit:read",
+  // Everything above, plus managing API and encryption keys
+  "admin",
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export interface ApiKeyRecord {
+  keyId: string;
+  name: string;
+  // Start of the token, to recognise a key without revealing it
+  prefix: string;
+  scopes: ApiKeyScope[];
+  // Clients the key is limited to; null means all clients
+  clientIds: string[] | null;
+  expiresAt?: string;
+  revokedAt?: string;
+  lastUsedAt?: string;
+  createdBy?: string;
+  createdAt: string;
+}
+
+export interface CreatedApiKey extends ApiKeyRecord {
+  token: string;
+}
+
+// The authenticated caller, attached to the request by authMiddleware
+export interface Principal {
+  keyId: string;
+  name: string;
+  scopes: ApiKeyScope[];
+  clientIds: string[] | null;
+}
+
+// Set on every authenticated request
+declare module "express-serve-static-core" {
+  interface Request {
+    principal?: Principal;
+  }
+}
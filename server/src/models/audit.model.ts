@@ -0,0 +1,57 @@
+// Append-only record of who did what to which download or schedule.
+// Entries are written by the controllers (requests made with an API key),
+// by DownloadService (status changes, with actor "system") and by the
+// scheduler (actor "schedule:<name>").
+
+export type AuditOutcome = "success" | "failure" | "denied";
+
+export type AuditAction =
+  | "download.trigger"
+  | "download.cancel"
+  | "download.retry"
+  | "artifact.url"
+  | "artifact.manifest"
+  | "schedule.create"
+  | "schedule.update"
+  | "schedule.delete"
+  | "batch.create"
+  | "access.denied"
+  | `download.${string}`;
+
+export interface AuditEntry {
+  id: number;
+  occurredAt: string;
+  actor: string;
+  apiKeyId?: string;
+  action: AuditAction;
+  outcome: AuditOutcome;
+  downloadId?: string;
+  clientId?: string;
+  ip?: string;
+  userAgent?: string;
+  details?: Record<string, unknown>;
+}
+
+export type NewAuditEntry = Omit<AuditEntry, "id" | "occurredAt">;
+
+export interface AuditQuery {
+  actor?: string;
+  apiKeyId?: string;
+  action?: string[];
+  outcome?: AuditOutcome;
+  downloadId?: string;
+  clientId?: string;
+  // Restricts results to these clients (keys limited to some clients)
+  clientIds?: string[];
+  from?: string;
+  to?: string;
+  order: "asc" | "desc";
+  limit: number;
+  // Id of the last entry of the previous page
+  after?: number;
+}
+
+export interface AuditPage {
+  entries: AuditEntry[];
+  nextCursor: string | null;
+}
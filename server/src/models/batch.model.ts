@@ -0,0 +1,38 @@
+import { ClientSelector } from "./client.model";
+import { DownloadStatus, DownloadTemplateSummary } from "./download.model";
+
+export type BatchStatus = "running" | "completed";
+
+// waiting: not triggered yet (concurrency limit); triggered: see the
+// download's status; rejected: no download could be created
+export type BatchItemState = "waiting" | "triggered" | "rejected";
+
+// Per-client outcome: the download's status once triggered
+export type BatchItemStatus = "waiting" | "rejected" | DownloadStatus;
+
+export interface BatchItemRecord {
+  clientId: string;
+  status: BatchItemStatus;
+  downloadId?: string;
+  // Why the client was rejected or its download failed
+  error?: string;
+  updatedAt: string;
+}
+
+export interface BatchRecord {
+  batchId: string;
+  name?: string;
+  // How the clients were chosen: explicit ids or a selector
+  clientIds?: string[];
+  selector?: ClientSelector;
+  concurrency: number;
+  status: BatchStatus;
+  request: DownloadTemplateSummary;
+  total: number;
+  // Items per BatchItemStatus
+  counts: Partial<Record<BatchItemStatus, number>>;
+  items?: BatchItemRecord[];
+  createdBy?: string;
+  createdAt: string;
+  completedAt?: string;
+}
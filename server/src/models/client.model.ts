@@ -0,0 +1,82 @@
+import {
+  UploadEvent,
+  UploadProgressEvent,
+  UrlRefreshEvent,
+} from "./download.model";
+
+export type ClientStatus = "online" | "stale" | "offline";
+
+export interface ClientRecord {
+  clientId: string;
+  status: ClientStatus;
+  version?: string;
+  hostname?: string;
+  filePath?: string;
+  fileSize?: number;
+  fileMtime?: string;
+  // Labels from the agent's CLIENT_TAGS, e.g. { "site": "berlin" }
+  tags?: Record<string, string>;
+  lastSeenAt: string;
+  registeredAt: string;
+}
+
+export interface AgentHeartbeatEvent {
+  event: "agent_register" | "agent_heartbeat" | "agent_offline";
+  clientId: string;
+  version: string;
+  hostname: string;
+  filePath: string;
+  fileSize?: number;
+  fileMtime?: string;
+  tags?: Record<string, string>;
+  timestamp: string;
+}
+
+// Picks clients by their reported tags and/or current status
+export interface ClientSelector {
+  tags?: Record<string, string>;
+  status?: ClientStatus;
+}
+
+// A file the agent is willing to upload, as reported in a file listing
+export interface CatalogFile {
+  path: string;
+  // Set when the file is reachable through a FILE_ALIASES name
+  name?: string;
+  size: number;
+  mtime: string;
+  sha256?: string;
+}
+
+export interface ListFilesCommand {
+  cmd: "list_files";
+  requestId: string;
+  // The server has stopped waiting after this; late commands are skipped
+  expiresAt: string;
+  hash: boolean;
+}
+
+export interface FileListEvent {
+  event: "file_list";
+  clientId?: string;
+  requestId: string;
+  files: CatalogFile[];
+  truncated: boolean;
+  error?: string;
+  timestamp: string;
+}
+
+// How agents publish events when signing is enabled: `payload` is the
+// JSON-encoded event, signed with the agent's secret
+export interface SignedEnvelope {
+  clientId: string;
+  payload: string;
+  signature: string;
+}
+
+export type AgentEvent =
+  | UploadEvent
+  | UploadProgressEvent
+  | UrlRefreshEvent
+  | AgentHeartbeatEvent
+  | FileListEvent;
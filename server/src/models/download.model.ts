@@ -1,47 +1,299 @@
+import { ListFilesCommand } from "./client.model";
+
+// queued: waiting for a free slot (MAX_IN_FLIGHT_PER_CLIENT/_GLOBAL); no
+// command has been sent yet
+export type DownloadStatus =
+  | "queued"
+  | "pending"
+  | "uploaded"
+  | "verified"
+  | "failed"
+  | "expired"
+  | "cancelled";
+
+// Downloads in these states hold one of the in-flight slots
+export const IN_FLIGHT_STATUSES: DownloadStatus[] = ["pending", "uploaded"];
+
+// Downloads in these states no longer accept upload events
+export const TERMINAL_STATUSES: DownloadStatus[] = [
+  "verified",
+  "failed",
+  "expired",
+  "cancelled",
+];
+
+// Which file on the agent to upload; without one the agent sends its
+// configured default FILE_PATH
+export interface FileSelector {
+  path?: string;
+  name?: string;
+}
+
+export type ArchiveCompression = "none" | "gzip" | "zstd";
+
+// Applied by the agent to a single-file upload
+export type UploadCompression = "gzip" | "brotli" | "zstd";
+
+// Directories and/or glob patterns the agent packs into one tar archive
+export interface ArchiveSpec {
+  paths: string[];
+  compression: ArchiveCompression;
+}
+
+// One file inside an archive upload, as reported by the agent
+export interface ManifestEntry {
+  path: string;
+  size: number;
+  mtime: string;
+  sha256: string;
+}
+
+// Recipient key for an encrypted upload; publicKey is normalized SPKI PEM
+export interface EncryptionOptions {
+  publicKey: string;
+  fingerprint: string;
+  // Set when the key comes from the server's key registry
+  keyId?: string;
+}
+
+// How the agent should produce the upload; kept on the record so the
+// same request can be reproduced
+export interface DownloadOptions {
+  file?: FileSelector;
+  archive?: ArchiveSpec;
+  compression?: UploadCompression;
+  encryption?: EncryptionOptions;
+}
+
+// What a schedule or batch triggers on each of its clients
+export interface DownloadTemplate {
+  originalFilename?: string;
+  options: DownloadOptions;
+  queueIfOffline?: boolean;
+  onBehalfOf?: string;
+  reason?: string;
+  ticket?: string;
+  tags?: Record<string, string>;
+}
+
+// A DownloadTemplate as shown to API callers, without the public key
+export type DownloadTemplateSummary = Omit<DownloadTemplate, "options"> & {
+  file?: FileSelector;
+  archive?: ArchiveSpec;
+  compression?: UploadCompression;
+  encryption?: { keyId?: string; fingerprint: string };
+};
+
+// Downloads that can be retried with POST /downloads/:id/retry
+export const RETRYABLE_STATUSES: DownloadStatus[] = [
+  "failed",
+  "expired",
+  "cancelled",
+];
+
+// Where a retry sits in the chain of attempts for one request
+export interface DownloadLineage {
+  parentDownloadId: string;
+  rootDownloadId: string;
+  attempt: number;
+}
+
+export interface DownloadAttempt {
+  downloadId: string;
+  attempt: number;
+  status: DownloadStatus;
+  createdAt: string;
+  error?: string;
+}
+
+// Kind of change pushed to event stream subscribers
+export type DownloadUpdateType = "status" | "progress";
+
+export interface DownloadProgress {
+  bytesSent: number;
+  totalBytes: number;
+  percent: number;
+  throughputBps: number;
+  etaSeconds: number | null;
+  attempt: number;
+  updatedAt: string;
+}
+
 export interface DownloadRecord {
   downloadId: string;
   clientId: string;
   objectKey: string;
-  status: "pending" | "uploaded" | "verified" | "failed";
+  originalFilename?: string;
+  options?: DownloadOptions;
+  status: DownloadStatus;
+  // 1 for the original request; retries count up from there
+  attempt: number;
+  parentDownloadId?: string;
+  rootDownloadId?: string;
   presignedUrl?: string;
   expiresAt?: string;
   size?: number;
   sha256?: string;
+  // Before compression; reported by the agent
+  originalSize?: number;
+  originalSha256?: string;
+  encryption?: {
+    algorithm: string;
+    keyId?: string;
+    fingerprint: string;
+  };
+  verificationMethod?: string;
+  progress?: DownloadProgress;
+  // 1-based place among all queued downloads, oldest first; set while queued
+  queuePosition?: number;
   createdAt: string;
   updatedAt: string;
   error?: string;
   meta?: {
+    // Name of the API key that requested the download
     requestedBy?: string;
+    apiKeyId?: string;
+    // Free-form requester supplied in the request body
+    onBehalfOf?: string;
+    reason?: string;
+    // Support case or change ticket the download belongs to
+    ticket?: string;
+    tags?: Record<string, string>;
   };
 }
 
+export interface PresignedPart {
+  partNumber: number;
+  url: string;
+}
+
+export interface CompletedPart {
+  partNumber: number;
+  etag: string;
+}
+
+export interface MultipartUpload {
+  uploadId: string;
+  partSize: number;
+  parts: PresignedPart[];
+}
+
 export interface UploadCommand {
   cmd: "upload";
   downloadId: string;
   objectKey: string;
   presignedUrl: string;
   expiresAt: string;
+  file?: FileSelector;
+  archive?: ArchiveSpec;
+  compression?: UploadCompression;
+  // The agent encrypts the upload for this recipient
+  encryption?: { publicKey: string };
+  // Present for large files; the client falls back to presignedUrl when
+  // the file does not fit into the presigned parts
+  multipart?: MultipartUpload;
   meta?: {
     requestedBy?: string;
   };
 }
 
+export interface DownloadListQuery {
+  clientId?: string;
+  // Restricts results to these clients (keys limited to some clients)
+  clientIds?: string[];
+  status?: DownloadStatus[];
+  requestedBy?: string;
+  onBehalfOf?: string;
+  ticket?: string;
+  // Substring of the reason
+  reason?: string;
+  // Downloads carrying every one of these tags
+  tags?: Record<string, string>;
+  createdFrom?: string;
+  createdTo?: string;
+  filename?: string;
+  sort: "createdAt" | "updatedAt";
+  order: "asc" | "desc";
+  limit: number;
+  cursor?: string;
+}
+
+export interface DownloadPage {
+  downloads: DownloadRecord[];
+  nextCursor: string | null;
+}
+
+export interface CancelCommand {
+  cmd: "cancel";
+  downloadId: string;
+  reason?: string;
+}
+
+// Reply to a url_refresh event: fresh URLs for a pending upload, or why
+// none were issued
+export interface UrlRefreshCommand {
+  cmd: "url_refresh";
+  requestId: string;
+  downloadId: string;
+  presignedUrl?: string;
+  expiresAt?: string;
+  // Present when the request named multipart part numbers
+  parts?: PresignedPart[];
+  error?: string;
+}
+
+export type AgentCommand =
+  UploadCommand | CancelCommand | ListFilesCommand | UrlRefreshCommand;
+
 export interface UploadCompleteEvent {
   event: "upload_complete";
+  // Stamped by the agent; verified when events are signed
+  clientId?: string;
   downloadId: string;
   objectKey: string;
   size: number;
   sha256: string;
+  // Set when the file was sent through the multipart upload
+  parts?: CompletedPart[];
   status: "ok";
   timestamp: string;
+  // Files included, for archive uploads
+  manifest?: ManifestEntry[];
+  // The data before compression/encryption, for such uploads
+  originalSize?: number;
+  originalSha256?: string;
 }
 
 export interface UploadFailedEvent {
   event: "upload_failed";
+  clientId?: string;
   downloadId: string;
   objectKey: string;
   reason: string;
   timestamp: string;
 }
 
+export interface UploadProgressEvent {
+  event: "upload_progress";
+  clientId?: string;
+  downloadId: string;
+  objectKey: string;
+  bytesSent: number;
+  totalBytes: number;
+  throughputBps: number;
+  attempt: number;
+  timestamp: string;
+}
+
+// The agent's URLs for a pending upload expired or are about to
+export interface UrlRefreshEvent {
+  event: "url_refresh";
+  clientId?: string;
+  requestId: string;
+  downloadId: string;
+  objectKey: string;
+  partNumbers?: number[];
+  timestamp: string;
+}
+
 export type UploadEvent = UploadCompleteEvent | UploadFailedEvent;
@@ -0,0 +1,20 @@
+// Recipient keys for end-to-end encrypted uploads. Only public keys are
+// stored; a private key generated by the server is returned once.
+
+// Envelope written by the agent: RSA-OAEP (SHA-256) wraps a one-off
+// AES-256-GCM key
+export const ENCRYPTION_ALGORITHM = "RSA-OAEP-256+A256GCM";
+
+export interface EncryptionKeyRecord {
+  keyId: string;
+  name?: string;
+  publicKey: string;
+  // SHA-256 of the DER-encoded public key, hex
+  fingerprint: string;
+  createdAt: string;
+}
+
+export interface CreatedEncryptionKey extends EncryptionKeyRecord {
+  // Only when the server generated the pair; not stored anywhere
+  privateKey?: string;
+}
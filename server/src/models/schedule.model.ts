@@ -0,0 +1,38 @@
+import { DownloadTemplateSummary } from "./download.model";
+
+export interface ScheduleRecord {
+  scheduleId: string;
+  name: string;
+  // Five-field cron expression (optionally with seconds), in `timezone`
+  cron: string;
+  timezone: string;
+  clientIds: string[];
+  enabled: boolean;
+  request: DownloadTemplateSummary;
+  nextRunAt?: string;
+  lastRunAt?: string;
+  createdBy?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// triggered: a download was created; skipped: the previous run's download
+// was still in progress; failed: no download could be created
+export type ScheduleRunStatus = "running" | "triggered" | "skipped" | "failed";
+
+export interface ScheduleRunRecord {
+  runId: number;
+  scheduleId: string;
+  clientId: string;
+  // The cron occurrence this run belongs to
+  scheduledFor: string;
+  status: ScheduleRunStatus;
+  downloadId?: string;
+  error?: string;
+  createdAt: string;
+}
+
+export interface ScheduleRunPage {
+  runs: ScheduleRunRecord[];
+  nextCursor: string | null;
+}
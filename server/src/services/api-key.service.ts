@@ -0,0 +1,161 @@
+import crypto from "crypto";
+import { v4 as uuidv4 } from "uuid";
+import dbService, { ApiKey } from "./db.service";
+import logger from "../utils/logger";
+import {
+  ApiKeyRecord,
+  ApiKeyScope,
+  CreatedApiKey,
+  Principal,
+} from "../models/api-key.model";
+
+const TOKEN_PREFIX = "sm_";
+// Characters of the token kept in clear for display
+const DISPLAY_PREFIX_LENGTH = 11;
+
+// SERVER_API_KEY acts as this key
+const BOOTSTRAP_PRINCIPAL: Principal = {
+  keyId: "bootstrap",
+  name: "bootstrap",
+  scopes: ["admin"],
+  clientIds: null,
+};
+
+function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+class ApiKeyService {
+  /**
+   * Creates a key and returns it with its token. The token is not stored
+   * and cannot be retrieved later.
+   */
+  async createKey(
+    name: string,
+    scopes: ApiKeyScope[],
+    clientIds: string[] | null,
+    expiresAt?: string,
+    createdBy?: string,
+  ): Promise<CreatedApiKey> {
+    const keyId = uuidv4();
+    const token = `${TOKEN_PREFIX}${crypto.randomBytes(32).toString("base64url")}`;
+
+    await dbService.createApiKey({
+      key_id: keyId,
+      name,
+      prefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+      key_hash: hashToken(token),
+      scopes: JSON.stringify(scopes),
+      client_ids: clientIds ? JSON.stringify(clientIds) : undefined,
+      expires_at: expiresAt,
+      created_by: createdBy,
+    });
+
+    logger.info(`Created API key ${keyId}`, { name, scopes, createdBy });
+
+    const key = await dbService.getApiKey(keyId);
+    return { ...this.toRecord(key!), token };
+  }
+
+  async getKey(keyId: string): Promise<ApiKeyRecord | null> {
+    const key = await dbService.getApiKey(keyId);
+    if (!key) return null;
+
+    return this.toRecord(key);
+  }
+
+  async listKeys(): Promise<ApiKeyRecord[]> {
+    const keys = await dbService.listApiKeys();
+    return keys.map((k) => this.toRecord(k));
+  }
+
+  /**
+   * Revokes a key. Returns null for unknown keys; revoking twice keeps the
+   * original revocation time.
+   */
+  async revokeKey(keyId: string): Promise<ApiKeyRecord | null> {
+    const key = await dbService.getApiKey(keyId);
+    if (!key) return null;
+
+    if (!key.revoked_at) {
+      await dbService.revokeApiKey(keyId);
+      logger.info(`Revoked API key ${keyId}`, { name: key.name });
+    }
+
+    return this.getKey(keyId);
+  }
+
+  /**
+   * Resolves a bearer token to a principal, or null when it is unknown,
+   * revoked or expired. SERVER_API_KEY, if set, acts as a built-in admin
+   * key so a fresh installation can create its first keys.
+   */
+  async authenticate(token: string): Promise<Principal | null> {
+    const bootstrapToken = process.env.SERVER_API_KEY;
+    if (
+      bootstrapToken &&
+      token.length === bootstrapToken.length &&
+      crypto.timingSafeEqual(Buffer.from(token), Buffer.from(bootstrapToken))
+    ) {
+      return BOOTSTRAP_PRINCIPAL;
+    }
+
+    const key = await dbService.getApiKeyByHash(hashToken(token));
+    if (!key || !this.isActive(key)) {
+      return null;
+    }
+
+    dbService.touchApiKey(key.key_id).catch((error) => {
+      logger.error(`Error recording use of API key ${key.key_id}:`, error);
+    });
+
+    return this.toPrincipal(key);
+  }
+
+  /**
+   * The principal of key `keyId`, for work done later on its behalf (e.g.
+   * scheduled runs), or null when the key is unknown, revoked or expired.
+   */
+  async getPrincipal(keyId: string): Promise<Principal | null> {
+    if (keyId === BOOTSTRAP_PRINCIPAL.keyId) {
+      return process.env.SERVER_API_KEY ? BOOTSTRAP_PRINCIPAL : null;
+    }
+
+    const key = await dbService.getApiKey(keyId);
+    return key && this.isActive(key) ? this.toPrincipal(key) : null;
+  }
+
+  private isActive(key: ApiKey): boolean {
+    return (
+      !key.revoked_at &&
+      !(key.expires_at && new Date(key.expires_at) <= new Date())
+    );
+  }
+
+  private toPrincipal(key: ApiKey): Principal {
+    const record = this.toRecord(key);
+    return {
+      keyId: record.keyId,
+      name: record.name,
+      scopes: record.scopes,
+      clientIds: record.clientIds,
+    };
+  }
+
+  private toRecord(key: ApiKey): ApiKeyRecord {
+    return {
+      keyId: key.key_id,
+      name: key.name,
+      prefix: key.prefix,
+      scopes: JSON.parse(key.scopes),
+      clientIds: key.client_ids ? JSON.parse(key.client_ids) : null,
+      expiresAt: key.expires_at,
+      revokedAt: key.revoked_at,
+      lastUsedAt: key.last_used_at,
+      createdBy: key.created_by,
+      createdAt: key.created_at || "",
+    };
+  }
+}
+
+export default new ApiKeyService();
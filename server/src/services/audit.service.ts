@@ -0,0 +1,94 @@
+import { Request } from "express";
+import dbService, { AuditLogRow } from "./db.service";
+import logger from "../utils/logger";
+import {
+  AuditAction,
+  AuditEntry,
+  AuditOutcome,
+  AuditPage,
+  AuditQuery,
+  NewAuditEntry,
+} from "../models/audit.model";
+
+class AuditService {
+  /**
+   * Appends an entry to the audit log. Failures are logged rather than
+   * thrown, so auditing never breaks the action being audited.
+   */
+  async record(entry: NewAuditEntry): Promise<void> {
+    try {
+      await dbService.insertAuditEntry({
+        occurred_at: new Date().toISOString(),
+        actor: entry.actor,
+        api_key_id: entry.apiKeyId,
+        action: entry.action,
+        outcome: entry.outcome,
+        download_id: entry.downloadId,
+        client_id: entry.clientId,
+        ip: entry.ip,
+        user_agent: entry.userAgent,
+        details: entry.details ? JSON.stringify(entry.details) : undefined,
+      });
+    } catch (error) {
+      logger.error("Error writing audit entry:", { error, entry });
+    }
+  }
+
+  /**
+   * Records an action taken through the API, attributed to the request's
+   * API key and network origin.
+   */
+  async recordRequest(
+    req: Request,
+    action: AuditAction,
+    outcome: AuditOutcome,
+    target: { downloadId?: string; clientId?: string } = {},
+    details?: Record<string, unknown>,
+  ): Promise<void> {
+    await this.record({
+      actor: req.principal?.name || "anonymous",
+      apiKeyId: req.principal?.keyId,
+      action,
+      outcome,
+      downloadId: target.downloadId,
+      clientId: target.clientId,
+      ip: req.ip,
+      userAgent: req.get("user-agent"),
+      details,
+    });
+  }
+
+  async listEntries(query: AuditQuery): Promise<AuditPage> {
+    // Fetch one extra row to know whether another page exists
+    const rows = await dbService.listAuditEntries({
+      ...query,
+      limit: query.limit + 1,
+    });
+
+    const page = rows.slice(0, query.limit);
+    const last = page[page.length - 1];
+
+    return {
+      entries: page.map((row) => this.toEntry(row)),
+      nextCursor: rows.length > query.limit && last ? String(last.id) : null,
+    };
+  }
+
+  private toEntry(row: AuditLogRow): AuditEntry {
+    return {
+      id: row.id,
+      occurredAt: row.occurred_at,
+      actor: row.actor,
+      apiKeyId: row.api_key_id || undefined,
+      action: row.action as AuditAction,
+      outcome: row.outcome as AuditOutcome,
+      downloadId: row.download_id || undefined,
+      clientId: row.client_id || undefined,
+      ip: row.ip || undefined,
+      userAgent: row.user_agent || undefined,
+      details: row.details ? JSON.parse(row.details) : undefined,
+    };
+  }
+}
+
+export default new AuditService();
@@ -0,0 +1,288 @@
+import { v4 as uuidv4 } from "uuid";
+import dbService, { Batch, BatchItem } from "./db.service";
+import downloadService from "./download.service";
+import clientService from "./client.service";
+import auditService from "./audit.service";
+import logger from "../utils/logger";
+import { summarizeTemplate } from "../utils/download-request";
+import { Principal } from "../models/api-key.model";
+import { ClientSelector } from "../models/client.model";
+import {
+  DownloadStatus,
+  DownloadTemplate,
+  TERMINAL_STATUSES,
+} from "../models/download.model";
+import {
+  BatchItemRecord,
+  BatchItemStatus,
+  BatchRecord,
+  BatchStatus,
+} from "../models/batch.model";
+
+export interface NewBatch {
+  name?: string;
+  // Exactly one of clientIds and selector describes how targets were chosen
+  clientIds?: string[];
+  selector?: ClientSelector;
+  targets: string[];
+  concurrency?: number;
+  request: DownloadTemplate;
+}
+
+function isInFlight(item: BatchItem): boolean {
+  return (
+    item.state === "triggered" &&
+    !TERMINAL_STATUSES.includes(item.download_status as DownloadStatus)
+  );
+}
+
+/**
+ * Fans a download request out to many clients. At most `concurrency`
+ * downloads of a batch are in progress at once; the next waiting client is
+ * triggered whenever one of them reaches a final status. Batches are
+ * stored in SQLite and resumed on startup.
+ */
+class BatchService {
+  private defaultConcurrency: number;
+  // Serializes advance() per batch, so slots are never handed out twice
+  private advancing: Map<string, Promise<void>> = new Map();
+  private unsubscribe: (() => void) | null = null;
+
+  constructor() {
+    this.defaultConcurrency = parseInt(
+      process.env.BATCH_CONCURRENCY || "10",
+      10,
+    );
+  }
+
+  start(): void {
+    if (this.unsubscribe) return;
+
+    this.unsubscribe = downloadService.onUpdate((type, record) => {
+      if (type === "status" && TERMINAL_STATUSES.includes(record.status)) {
+        this.handleDownloadFinished(record.downloadId);
+      }
+    });
+
+    this.resume().catch((error) =>
+      logger.error("Error resuming batches:", error),
+    );
+  }
+
+  stop(): void {
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+  }
+
+  async createBatch(
+    batch: NewBatch,
+    principal?: Principal,
+  ): Promise<BatchRecord> {
+    const batchId = uuidv4();
+
+    await dbService.createBatch(
+      {
+        batch_id: batchId,
+        name: batch.name,
+        client_ids: batch.clientIds && JSON.stringify(batch.clientIds),
+        selector: batch.selector && JSON.stringify(batch.selector),
+        concurrency: batch.concurrency || this.defaultConcurrency,
+        status: "running",
+        request: JSON.stringify(batch.request),
+        created_by: principal?.name,
+        api_key_id: principal?.keyId,
+      },
+      batch.targets,
+    );
+
+    logger.info(`Created batch ${batchId}`, {
+      name: batch.name,
+      clients: batch.targets.length,
+    });
+
+    // The first downloads go out before the response
+    await this.advance(batchId);
+
+    return (await this.getBatch(batchId))!;
+  }
+
+  async getBatch(batchId: string): Promise<BatchRecord | null> {
+    const batch = await dbService.getBatch(batchId);
+    if (!batch) return null;
+
+    const items = await dbService.listBatchItems(batchId);
+    return this.toRecord(batch, items);
+  }
+
+  // Picks up batches that were still running when the server stopped
+  async resume(): Promise<void> {
+    const batches = await dbService.listRunningBatches();
+    for (const batch of batches) {
+      await this.advance(batch.batch_id);
+    }
+
+    if (batches.length > 0) {
+      logger.info(`Resumed ${batches.length} batch(es)`);
+    }
+  }
+
+  private async handleDownloadFinished(downloadId: string): Promise<void> {
+    try {
+      const item = await dbService.getBatchItemByDownload(downloadId);
+      if (item) {
+        await this.advance(item.batch_id);
+      }
+    } catch (error) {
+      logger.error(`Error advancing batch for ${downloadId}:`, error);
+    }
+  }
+
+  /**
+   * Triggers waiting clients while the batch has free slots and marks it
+   * completed once every client has a final outcome.
+   */
+  private advance(batchId: string): Promise<void> {
+    const previous = this.advancing.get(batchId) || Promise.resolve();
+    const next = previous
+      .then(() => this.fill(batchId))
+      .catch((error) => {
+        logger.error(`Error advancing batch ${batchId}:`, error);
+      })
+      .finally(() => {
+        if (this.advancing.get(batchId) === next) {
+          this.advancing.delete(batchId);
+        }
+      });
+
+    this.advancing.set(batchId, next);
+    return next;
+  }
+
+  private async fill(batchId: string): Promise<void> {
+    const batch = await dbService.getBatch(batchId);
+    if (!batch || batch.status !== "running") return;
+
+    // Re-read after each round: downloads may finish while others are
+    // being triggered, and their update may have arrived mid-round
+    for (;;) {
+      const items = await dbService.listBatchItems(batchId);
+      const waiting = items.filter((i) => i.state === "waiting");
+      const inFlight = items.filter(isInFlight).length;
+
+      if (waiting.length === 0 && inFlight === 0) {
+        await dbService.completeBatch(batchId, new Date().toISOString());
+        logger.info(`Batch ${batchId} completed`);
+        return;
+      }
+
+      const free = batch.concurrency - inFlight;
+      if (free <= 0 || waiting.length === 0) return;
+
+      for (const item of waiting.slice(0, free)) {
+        await this.triggerItem(batch, item.client_id);
+      }
+    }
+  }
+
+  private async triggerItem(batch: Batch, clientId: string): Promise<void> {
+    const batchId = batch.batch_id;
+    const reject = async (error: string) => {
+      await dbService.updateBatchItem(batchId, clientId, {
+        state: "rejected",
+        error,
+      });
+      logger.info(`Batch ${batchId} skipped ${clientId}: ${error}`);
+    };
+
+    try {
+      const request: DownloadTemplate = JSON.parse(batch.request);
+      const client = await clientService.getClient(clientId);
+      if (!client) {
+        await reject("Client not found");
+        return;
+      }
+      const queued = client.status !== "online";
+      if (queued && !request.queueIfOffline) {
+        await reject("Client is not online");
+        return;
+      }
+
+      const record = await downloadService.triggerDownload(
+        clientId,
+        request.originalFilename,
+        {
+          requestedBy: batch.created_by,
+          apiKeyId: batch.api_key_id,
+          onBehalfOf: request.onBehalfOf,
+          reason: request.reason,
+          ticket: request.ticket,
+          // Lets GET /downloads?tag=batch:<id> find what a batch created
+          tags: { ...request.tags, batch: batchId },
+        },
+        queued,
+        request.options,
+      );
+
+      await dbService.updateBatchItem(batchId, clientId, {
+        state: "triggered",
+        download_id: record.downloadId,
+      });
+
+      await auditService.record({
+        actor: batch.created_by || "anonymous",
+        apiKeyId: batch.api_key_id,
+        action: "download.trigger",
+        outcome: "success",
+        downloadId: record.downloadId,
+        clientId,
+        details: { batchId, queued },
+      });
+    } catch (error) {
+      logger.error(`Error triggering batch ${batchId} for ${clientId}:`, error);
+      await reject(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private toRecord(batch: Batch, items: BatchItem[]): BatchRecord {
+    const itemRecords = items.map((item) => this.toItemRecord(item));
+    const counts: BatchRecord["counts"] = {};
+    for (const item of itemRecords) {
+      counts[item.status] = (counts[item.status] || 0) + 1;
+    }
+
+    return {
+      batchId: batch.batch_id,
+      name: batch.name || undefined,
+      clientIds: batch.client_ids ? JSON.parse(batch.client_ids) : undefined,
+      selector: batch.selector ? JSON.parse(batch.selector) : undefined,
+      concurrency: batch.concurrency,
+      status: batch.status as BatchStatus,
+      request: summarizeTemplate(JSON.parse(batch.request)),
+      total: itemRecords.length,
+      counts,
+      items: itemRecords,
+      createdBy: batch.created_by || undefined,
+      createdAt: batch.created_at || "",
+      completedAt: batch.completed_at || undefined,
+    };
+  }
+
+  private toItemRecord(item: BatchItem): BatchItemRecord {
+    const status: BatchItemStatus =
+      item.state === "triggered"
+        ? (item.download_status as DownloadStatus)
+        : (item.state as BatchItemStatus);
+
+    return {
+      clientId: item.client_id,
+      status,
+      downloadId: item.download_id || undefined,
+      error: item.error || item.download_error || undefined,
+      updatedAt: item.updated_at || "",
+    };
+  }
+}
+
+export default new BatchService();
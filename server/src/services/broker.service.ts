@@ -1,14 +1,45 @@
 import { createClient, RedisClientType } from "redis";
 import logger from "../utils/logger";
-import { UploadCommand, UploadEvent } from "../models/download.model";
+import {
+  createNonce,
+  parseSecrets,
+  signPayload,
+  verifyPayload,
+} from "../utils/signing";
+import { AgentCommand } from "../models/download.model";
+import { AgentEvent, SignedEnvelope } from "../models/client.model";
+
+// Events may be this far ahead of the server clock
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
 
 class BrokerService {
   private publisher: RedisClientType;
   private subscriber: RedisClientType;
   private isConnected: boolean = false;
+  private commandStreamMaxLen: number;
+  // Per-agent HMAC secrets; when any are configured, every command is
+  // signed and only signed events are accepted
+  private agentSecrets: Map<string, string>;
+  private eventMaxAgeMs: number;
+  // Nonces of accepted events, with the time they can be forgotten
+  private seenNonces: Map<string, number> = new Map();
+  private lastNoncePrune: number = 0;
 
   constructor() {
     const redisUrl = process.env.REDIS_URL || "redis://localhost:6379";
+    this.commandStreamMaxLen = parseInt(
+      process.env.COMMAND_STREAM_MAXLEN || "1000",
+      10,
+    );
+    this.agentSecrets = parseSecrets(process.env.AGENT_SECRETS);
+    this.eventMaxAgeMs =
+      parseInt(process.env.EVENT_MAX_AGE_SEC || "300", 10) * 1000;
+
+    if (this.agentSecrets.size === 0) {
+      logger.warn(
+        "AGENT_SECRETS not configured: commands and events are not signed",
+      );
+    }
 
     this.publisher = createClient({ url: redisUrl });
     this.subscriber = createClient({ url: redisUrl });
@@ -44,20 +75,49 @@ class BrokerService {
     }
   }
 
-  async publishCommand(
-    clientId: string,
-    command: UploadCommand,
-  ): Promise<void> {
+  /**
+   * Appends a command to the client's stream (`commands:<clientId>`).
+   * Unlike pub/sub, entries stay in the stream until the agent's consumer
+   * group acknowledges them, so agents that are offline or restarting
+   * receive the command once they reconnect. With AGENT_SECRETS set, the
+   * payload is signed with the client's secret and carries a nonce and
+   * issue time the agent checks against replays.
+   */
+  async publishCommand(clientId: string, command: AgentCommand): Promise<void> {
     if (!this.isConnected) {
       throw new Error("BrokerService not connected");
     }
 
     try {
-      const channel = `commands:${clientId}`;
-      const message = JSON.stringify(command);
-      await this.publisher.publish(channel, message);
-      logger.info(`Published command to ${channel}`, {
-        downloadId: command.downloadId,
+      const stream = `commands:${clientId}`;
+      const message = JSON.stringify({
+        ...command,
+        clientId,
+        nonce: createNonce(),
+        issuedAt: new Date().toISOString(),
+      });
+
+      const fields: Record<string, string> = { payload: message };
+      if (this.agentSecrets.size > 0) {
+        const secret = this.agentSecrets.get(clientId);
+        if (!secret) {
+          throw new Error(`No signing secret configured for ${clientId}`);
+        }
+        fields.signature = signPayload(message, secret);
+      }
+
+      const entryId = await this.publisher.xAdd(stream, "*", fields, {
+        TRIM: {
+          strategy: "MAXLEN",
+          strategyModifier: "~",
+          threshold: this.commandStreamMaxLen,
+        },
+      });
+      logger.info(`Published ${command.cmd} command to ${stream}`, {
+        ...("downloadId" in command
+          ? { downloadId: command.downloadId }
+          : { requestId: command.requestId }),
+        entryId,
       });
     } catch (error) {
       logger.error(`Error publishing command to client ${clientId}:`, error);
@@ -66,7 +126,7 @@ class BrokerService {
   }
 
   async subscribeToEvents(
-    callback: (event: UploadEvent) => void,
+    callback: (event: AgentEvent) => void,
   ): Promise<void> {
     if (!this.isConnected) {
       throw new Error("BrokerService not connected");
@@ -77,7 +137,10 @@ class BrokerService {
 
       await this.subscriber.subscribe(channel, (message) => {
         try {
-          const event = JSON.parse(message) as UploadEvent;
+          const event = this.openEvent(JSON.parse(message));
+          if (!event) {
+            return;
+          }
           logger.debug(`Received event from ${channel}`, {
             event: event.event,
           });
@@ -93,6 +156,69 @@ class BrokerService {
       throw error;
     }
   }
+
+  /**
+   * Unwraps a signed event envelope. When AGENT_SECRETS is set, events
+   * must be signed by the agent they name, recent, and not seen before;
+   * anything else is dropped (null).
+   */
+  private openEvent(message: any): AgentEvent | null {
+    const signed = typeof message?.payload === "string";
+
+    if (this.agentSecrets.size === 0) {
+      return (signed ? JSON.parse(message.payload) : message) as AgentEvent;
+    }
+
+    const envelope = message as SignedEnvelope;
+    const secret = signed ? this.agentSecrets.get(envelope.clientId) : null;
+    if (
+      !secret ||
+      !verifyPayload(envelope.payload, envelope.signature, secret)
+    ) {
+      logger.warn("Dropping event with missing or invalid signature", {
+        clientId: envelope?.clientId,
+      });
+      return null;
+    }
+
+    const event = JSON.parse(envelope.payload);
+    const issuedAt = new Date(event.issuedAt).getTime();
+    const now = Date.now();
+    let rejection: string | null = null;
+
+    if (event.clientId !== envelope.clientId) {
+      rejection = "client mismatch";
+    } else if (
+      !event.nonce ||
+      Number.isNaN(issuedAt) ||
+      issuedAt < now - this.eventMaxAgeMs ||
+      issuedAt > now + MAX_CLOCK_SKEW_MS
+    ) {
+      rejection = "stale or undated";
+    } else if (this.seenNonces.has(event.nonce)) {
+      rejection = "replayed nonce";
+    }
+
+    if (rejection) {
+      logger.warn(`Dropping event from ${envelope.clientId}: ${rejection}`, {
+        event: event.event,
+      });
+      return null;
+    }
+
+    if (now - this.lastNoncePrune > 60 * 1000) {
+      for (const [nonce, forgetAt] of this.seenNonces) {
+        if (forgetAt < now) this.seenNonces.delete(nonce);
+      }
+      this.lastNoncePrune = now;
+    }
+    this.seenNonces.set(
+      event.nonce,
+      issuedAt + this.eventMaxAgeMs + MAX_CLOCK_SKEW_MS,
+    );
+
+    return event as AgentEvent;
+  }
 }
 
 export default new BrokerService();
@@ -0,0 +1,205 @@
+import { v4 as uuidv4 } from "uuid";
+import dbService, { Client } from "./db.service";
+import brokerService from "./broker.service";
+import logger from "../utils/logger";
+import { tagKeyPattern } from "../utils/download-request";
+import {
+  AgentHeartbeatEvent,
+  ClientRecord,
+  ClientSelector,
+  ClientStatus,
+  FileListEvent,
+} from "../models/client.model";
+
+// Most tags kept per client; selectors only match what is stored
+const MAX_CLIENT_TAGS = 20;
+
+// Agents are trusted to label themselves, but not to fill the database
+function sanitizeTags(tags: unknown): Record<string, string> | undefined {
+  if (!tags || typeof tags !== "object") return undefined;
+
+  const entries = Object.entries(tags)
+    .filter(
+      ([key, value]) =>
+        tagKeyPattern.test(key) &&
+        typeof value === "string" &&
+        value.length <= 256,
+    )
+    .slice(0, MAX_CLIENT_TAGS);
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
+interface PendingFileList {
+  clientId: string;
+  resolve: (event: FileListEvent | null) => void;
+  timer: NodeJS.Timeout;
+}
+
+class ClientService {
+  private onlineThresholdSeconds: number;
+  private staleThresholdSeconds: number;
+  private fileListTimeoutMs: number;
+  // list_files requests waiting for the agent's reply, by requestId
+  private pendingFileLists: Map<string, PendingFileList> = new Map();
+
+  constructor() {
+    this.onlineThresholdSeconds = parseInt(
+      process.env.CLIENT_ONLINE_THRESHOLD_SEC || "30",
+      10,
+    );
+    this.staleThresholdSeconds = parseInt(
+      process.env.CLIENT_STALE_THRESHOLD_SEC || "300",
+      10,
+    );
+    this.fileListTimeoutMs = parseInt(
+      process.env.FILE_LIST_TIMEOUT_MS || "10000",
+      10,
+    );
+  }
+
+  async handleHeartbeat(event: AgentHeartbeatEvent): Promise<void> {
+    const { clientId } = event;
+
+    try {
+      const now = new Date().toISOString();
+
+      // last_seen_at uses the server clock so agent clock skew can't
+      // make a site look online or offline
+      const tags = sanitizeTags(event.tags);
+
+      await dbService.upsertClient({
+        client_id: clientId,
+        version: event.version,
+        hostname: event.hostname,
+        file_path: event.filePath,
+        file_size: event.fileSize,
+        file_mtime: event.fileMtime,
+        last_seen_at: now,
+        disconnected_at: event.event === "agent_offline" ? now : null,
+        tags: tags && JSON.stringify(tags),
+      });
+
+      if (event.event === "agent_heartbeat") {
+        logger.debug(`Heartbeat from ${clientId}`);
+      } else {
+        logger.info(`Client ${clientId} ${event.event.replace("agent_", "")}`, {
+          version: event.version,
+          hostname: event.hostname,
+        });
+      }
+    } catch (error) {
+      logger.error(`Error handling heartbeat from ${clientId}:`, error);
+    }
+  }
+
+  /**
+   * Asks the agent for the files it may upload and waits up to
+   * FILE_LIST_TIMEOUT_MS for the reply. Resolves to null on timeout.
+   */
+  async requestFileList(
+    clientId: string,
+    hash: boolean = false,
+  ): Promise<FileListEvent | null> {
+    const requestId = uuidv4();
+    const expiresAt = new Date(
+      Date.now() + this.fileListTimeoutMs,
+    ).toISOString();
+
+    const reply = new Promise<FileListEvent | null>((resolve) => {
+      const timer = setTimeout(() => {
+        this.pendingFileLists.delete(requestId);
+        resolve(null);
+      }, this.fileListTimeoutMs);
+      this.pendingFileLists.set(requestId, { clientId, resolve, timer });
+    });
+
+    try {
+      await brokerService.publishCommand(clientId, {
+        cmd: "list_files",
+        requestId,
+        expiresAt,
+        hash,
+      });
+    } catch (error) {
+      const pending = this.pendingFileLists.get(requestId);
+      if (pending) {
+        clearTimeout(pending.timer);
+        this.pendingFileLists.delete(requestId);
+      }
+      throw error;
+    }
+
+    const event = await reply;
+    if (!event) {
+      logger.warn(`File list request ${requestId} to ${clientId} timed out`);
+    }
+
+    return event;
+  }
+
+  handleFileList(event: FileListEvent): void {
+    const pending = this.pendingFileLists.get(event.requestId);
+    if (!pending || (event.clientId && event.clientId !== pending.clientId)) {
+      logger.debug(`Ignoring file list for unknown request ${event.requestId}`);
+      return;
+    }
+
+    clearTimeout(pending.timer);
+    this.pendingFileLists.delete(event.requestId);
+    pending.resolve(event);
+  }
+
+  async getClient(clientId: string): Promise<ClientRecord | null> {
+    const client = await dbService.getClient(clientId);
+    if (!client) return null;
+
+    return this.toRecord(client);
+  }
+
+  // Clients matching every part of `selector`; all clients without one
+  async listClients(selector: ClientSelector = {}): Promise<ClientRecord[]> {
+    const clients = await dbService.listClients();
+    const records = clients.map((c) => this.toRecord(c));
+    const tags = Object.entries(selector.tags || {});
+
+    return records.filter(
+      (r) =>
+        (!selector.status || r.status === selector.status) &&
+        tags.every(([key, value]) => r.tags?.[key] === value),
+    );
+  }
+
+  private computeStatus(client: Client): ClientStatus {
+    if (client.disconnected_at) {
+      return "offline";
+    }
+
+    const ageSeconds =
+      (Date.now() - new Date(client.last_seen_at).getTime()) / 1000;
+
+    if (ageSeconds <= this.onlineThresholdSeconds) {
+      return "online";
+    }
+    if (ageSeconds <= this.staleThresholdSeconds) {
+      return "stale";
+    }
+    return "offline";
+  }
+
+  private toRecord(client: Client): ClientRecord {
+    return {
+      clientId: client.client_id,
+      status: this.computeStatus(client),
+      version: client.version,
+      hostname: client.hostname,
+      filePath: client.file_path,
+      fileSize: client.file_size,
+      fileMtime: client.file_mtime,
+      tags: client.tags ? JSON.parse(client.tags) : undefined,
+      lastSeenAt: client.last_seen_at,
+      registeredAt: client.registered_at,
+    };
+  }
+}
+
+export default new ClientService();
@@ -1,6 +1,12 @@
 import sqlite3 from "sqlite3";
 import logger from "../utils/logger";
 import path from "path";
+import {
+  DownloadListQuery,
+  DownloadStatus,
+  TERMINAL_STATUSES,
+} from "../models/download.model";
+import { AuditQuery } from "../models/audit.model";
 
 export interface Download {
   download_id: string;
@@ -10,12 +16,155 @@ export interface Download {
   content_type?: string;
   size?: number;
   sha256?: string;
-  status: "pending" | "uploaded" | "verified" | "failed";
+  original_size?: number;
+  original_sha256?: string;
+  encryption_key_id?: string;
+  encryption_fingerprint?: string;
+  status: DownloadStatus;
   presigned_expires_at?: string;
+  upload_id?: string;
+  requested_by?: string;
+  api_key_id?: string;
+  on_behalf_of?: string;
+  reason?: string;
+  ticket?: string;
+  tags?: string; // JSON object of string values
+  parent_download_id?: string;
+  root_download_id?: string;
+  attempt?: number;
+  options?: string; // JSON-encoded DownloadOptions
+  manifest?: string; // JSON-encoded ManifestEntry[] for archive uploads
+  verification_method?: string;
+  error?: string;
+  progress_bytes?: number;
+  progress_total?: number;
+  progress_throughput?: number;
+  progress_attempt?: number;
+  progress_updated_at?: string;
   created_at?: string;
   updated_at?: string;
 }
 
+export interface EncryptionKey {
+  key_id: string;
+  name?: string;
+  public_key: string;
+  fingerprint: string;
+  created_at?: string;
+}
+
+export interface ApiKey {
+  key_id: string;
+  name: string;
+  prefix: string;
+  key_hash: string; // SHA-256 of the token
+  scopes: string; // JSON-encoded ApiKeyScope[]
+  client_ids?: string; // JSON-encoded string[]; unset for all clients
+  expires_at?: string;
+  revoked_at?: string;
+  last_used_at?: string;
+  created_by?: string;
+  created_at?: string;
+}
+
+export interface AuditLogRow {
+  id: number;
+  occurred_at: string;
+  actor: string;
+  api_key_id?: string;
+  action: string;
+  outcome: string;
+  download_id?: string;
+  client_id?: string;
+  ip?: string;
+  user_agent?: string;
+  details?: string; // JSON object
+}
+
+export interface IdempotencyKey {
+  api_key_id: string;
+  idempotency_key: string;
+  fingerprint: string; // SHA-256 of the request
+  // Unset while the first request is still being handled
+  status_code?: number;
+  response?: string; // JSON response body
+  download_id?: string;
+  created_at: string;
+  expires_at: string;
+}
+
+export interface Schedule {
+  schedule_id: string;
+  name: string;
+  cron: string;
+  timezone: string;
+  client_ids: string; // JSON-encoded string[]
+  request: string; // JSON-encoded DownloadTemplate
+  enabled: number; // 0 or 1
+  next_run_at?: string;
+  last_run_at?: string;
+  created_by?: string;
+  api_key_id?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface ScheduleRun {
+  run_id: number;
+  schedule_id: string;
+  client_id: string;
+  scheduled_for: string;
+  status: string;
+  download_id?: string;
+  error?: string;
+  created_at?: string;
+}
+
+export interface Batch {
+  batch_id: string;
+  name?: string;
+  client_ids?: string; // JSON-encoded string[], when given explicitly
+  selector?: string; // JSON-encoded ClientSelector
+  concurrency: number;
+  status: string;
+  request: string; // JSON-encoded DownloadTemplate
+  created_by?: string;
+  api_key_id?: string;
+  created_at?: string;
+  completed_at?: string;
+}
+
+export interface BatchItem {
+  batch_id: string;
+  client_id: string;
+  position: number;
+  state: string;
+  download_id?: string;
+  error?: string;
+  updated_at?: string;
+  // Joined from downloads
+  download_status?: string;
+  download_error?: string;
+}
+
+export interface Client {
+  client_id: string;
+  version?: string;
+  hostname?: string;
+  file_path?: string;
+  file_size?: number;
+  file_mtime?: string;
+  last_seen_at: string;
+  disconnected_at?: string | null;
+  registered_at: string;
+  tags?: string; // JSON-encoded Record<string, string>
+}
+
+// created_at/updated_at use SQLite's CURRENT_TIMESTAMP format (UTC)
+function toSqliteTimestamp(iso: string): string {
+  return new Date(iso).toISOString().replace("T", " ").slice(0, 19);
+}
+
 class DBService {
   private db: sqlite3.Database;
 
@@ -55,6 +204,44 @@ class DBService {
         },
       );
 
+      // Columns added after the initial schema
+      this.addColumn("downloads", "upload_id TEXT");
+      this.addColumn("downloads", "verification_method TEXT");
+      this.addColumn("downloads", "error TEXT");
+      this.addColumn("downloads", "progress_bytes BIGINT");
+      this.addColumn("downloads", "progress_total BIGINT");
+      this.addColumn("downloads", "progress_throughput BIGINT");
+      this.addColumn("downloads", "progress_attempt INTEGER");
+      this.addColumn("downloads", "progress_updated_at TEXT");
+      this.addColumn("downloads", "requested_by TEXT");
+      this.addColumn("downloads", "options TEXT");
+      this.addColumn("downloads", "manifest TEXT");
+      this.addColumn("downloads", "original_size INTEGER");
+      this.addColumn("downloads", "original_sha256 TEXT");
+      this.addColumn("downloads", "encryption_key_id TEXT");
+      this.addColumn("downloads", "encryption_fingerprint TEXT");
+      this.addColumn("downloads", "api_key_id TEXT");
+      this.addColumn("downloads", "on_behalf_of TEXT");
+      this.addColumn("downloads", "reason TEXT");
+      this.addColumn("downloads", "ticket TEXT");
+      this.addColumn("downloads", "tags TEXT");
+      this.addColumn("downloads", "parent_download_id TEXT");
+      this.addColumn("downloads", "root_download_id TEXT");
+      this.addColumn("downloads", "attempt INTEGER DEFAULT 1");
+      this.db.run(
+        "CREATE INDEX IF NOT EXISTS idx_downloads_root ON downloads(root_download_id)",
+      );
+      this.db.run(
+        "CREATE INDEX IF NOT EXISTS idx_downloads_status ON downloads(status)",
+      );
+
+      this.db.run(
+        `CREATE INDEX IF NOT EXISTS idx_downloads_created ON downloads(created_at)`,
+        (err) => {
+          if (err) logger.error("Error creating index", err);
+        },
+      );
+
       this.db.run(
         `
         CREATE INDEX IF NOT EXISTS idx_downloads_client ON downloads(client_id)
@@ -63,6 +250,220 @@ class DBService {
           if (err) logger.error("Error creating index", err);
         },
       );
+
+      this.db.run(
+        `
+        CREATE TABLE IF NOT EXISTS clients (
+          client_id TEXT PRIMARY KEY,
+          version TEXT,
+          hostname TEXT,
+          file_path TEXT,
+          file_size BIGINT,
+          file_mtime TEXT,
+          last_seen_at TEXT NOT NULL,
+          disconnected_at TEXT,
+          registered_at TEXT NOT NULL
+        )
+      `,
+        (err) => {
+          if (err) logger.error("Error creating clients table", err);
+        },
+      );
+      this.addColumn("clients", "tags TEXT");
+
+      this.db.run(
+        `
+        CREATE TABLE IF NOT EXISTS encryption_keys (
+          key_id TEXT PRIMARY KEY,
+          name TEXT,
+          public_key TEXT NOT NULL,
+          fingerprint TEXT NOT NULL,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP
+        )
+      `,
+        (err) => {
+          if (err) logger.error("Error creating encryption_keys table", err);
+        },
+      );
+
+      this.db.run(
+        `
+        CREATE TABLE IF NOT EXISTS api_keys (
+          key_id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          prefix TEXT NOT NULL,
+          key_hash TEXT NOT NULL UNIQUE,
+          scopes TEXT NOT NULL,
+          client_ids TEXT,
+          expires_at TEXT,
+          revoked_at TEXT,
+          last_used_at TEXT,
+          created_by TEXT,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP
+        )
+      `,
+        (err) => {
+          if (err) logger.error("Error creating api_keys table", err);
+        },
+      );
+
+      this.db.run(
+        `
+        CREATE TABLE IF NOT EXISTS idempotency_keys (
+          api_key_id TEXT NOT NULL,
+          idempotency_key TEXT NOT NULL,
+          fingerprint TEXT NOT NULL,
+          status_code INTEGER,
+          response TEXT,
+          download_id TEXT,
+          created_at TEXT NOT NULL,
+          expires_at TEXT NOT NULL,
+          PRIMARY KEY (api_key_id, idempotency_key)
+        )
+      `,
+        (err) => {
+          if (err) logger.error("Error creating idempotency_keys table", err);
+        },
+      );
+
+      this.db.run(
+        `
+        CREATE TABLE IF NOT EXISTS schedules (
+          schedule_id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          cron TEXT NOT NULL,
+          timezone TEXT NOT NULL,
+          client_ids TEXT NOT NULL,
+          request TEXT NOT NULL,
+          enabled INTEGER NOT NULL DEFAULT 1,
+          next_run_at TEXT,
+          last_run_at TEXT,
+          created_by TEXT,
+          api_key_id TEXT,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+        )
+      `,
+        (err) => {
+          if (err) logger.error("Error creating schedules table", err);
+        },
+      );
+
+      // One row per occurrence and client; the unique key is what keeps a
+      // restarted scheduler from firing an occurrence twice
+      this.db.run(
+        `
+        CREATE TABLE IF NOT EXISTS schedule_runs (
+          run_id INTEGER PRIMARY KEY AUTOINCREMENT,
+          schedule_id TEXT NOT NULL,
+          client_id TEXT NOT NULL,
+          scheduled_for TEXT NOT NULL,
+          status TEXT NOT NULL,
+          download_id TEXT,
+          error TEXT,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE (schedule_id, scheduled_for, client_id)
+        )
+      `,
+        (err) => {
+          if (err) logger.error("Error creating schedule_runs table", err);
+        },
+      );
+
+      this.db.run(
+        `
+        CREATE TABLE IF NOT EXISTS batches (
+          batch_id TEXT PRIMARY KEY,
+          name TEXT,
+          client_ids TEXT,
+          selector TEXT,
+          concurrency INTEGER NOT NULL,
+          status TEXT NOT NULL,
+          request TEXT NOT NULL,
+          created_by TEXT,
+          api_key_id TEXT,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          completed_at TEXT
+        )
+      `,
+        (err) => {
+          if (err) logger.error("Error creating batches table", err);
+        },
+      );
+
+      this.db.run(
+        `
+        CREATE TABLE IF NOT EXISTS batch_items (
+          batch_id TEXT NOT NULL,
+          client_id TEXT NOT NULL,
+          position INTEGER NOT NULL,
+          state TEXT NOT NULL,
+          download_id TEXT,
+          error TEXT,
+          updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (batch_id, client_id)
+        )
+      `,
+        (err) => {
+          if (err) logger.error("Error creating batch_items table", err);
+        },
+      );
+      this.db.run(
+        "CREATE INDEX IF NOT EXISTS idx_batch_items_download ON batch_items(download_id)",
+      );
+
+      this.db.run(
+        `
+        CREATE TABLE IF NOT EXISTS audit_log (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          occurred_at TEXT NOT NULL,
+          actor TEXT NOT NULL,
+          api_key_id TEXT,
+          action TEXT NOT NULL,
+          outcome TEXT NOT NULL,
+          download_id TEXT,
+          client_id TEXT,
+          ip TEXT,
+          user_agent TEXT,
+          details TEXT
+        )
+      `,
+        (err) => {
+          if (err) logger.error("Error creating audit_log table", err);
+        },
+      );
+      this.db.run(
+        "CREATE INDEX IF NOT EXISTS idx_audit_log_download ON audit_log(download_id)",
+      );
+      // The log is append-only: rows can be inserted, never changed
+      for (const op of ["UPDATE", "DELETE"]) {
+        this.db.run(
+          `
+          CREATE TRIGGER IF NOT EXISTS audit_log_no_${op.toLowerCase()}
+          BEFORE ${op} ON audit_log
+          BEGIN
+            SELECT RAISE(ABORT, 'audit_log is append-only');
+          END
+        `,
+          (err) => {
+            if (err)
+              logger.error(`Error creating audit_log ${op} trigger`, err);
+          },
+        );
+      }
+    });
+  }
+
+  /**
+   * Adds a column to an existing table. SQLite has no ADD COLUMN IF NOT
+   * EXISTS, so the "duplicate column" error on already-migrated databases
+   * is expected and ignored.
+   */
+  private addColumn(table: string, definition: string): void {
+    this.db.run(`ALTER TABLE ${table} ADD COLUMN ${definition}`, (err) => {
+      if (err && !err.message.includes("duplicate column name")) {
+        logger.error(`Error adding column to ${table}: ${definition}`, err);
+      }
     });
   }
 
@@ -73,8 +474,10 @@ class DBService {
       const sql = `
         INSERT INTO downloads (
           download_id, client_id, object_key, original_filename, 
-          status, presigned_expires_at
-        ) VALUES (?, ?, ?, ?, ?, ?)
+          status, presigned_expires_at, upload_id, requested_by, options,
+          encryption_key_id, encryption_fingerprint, api_key_id, on_behalf_of,
+          reason, ticket, tags, parent_download_id, root_download_id, attempt
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `;
       this.db.run(
         sql,
@@ -85,6 +488,19 @@ class DBService {
           download.original_filename,
           download.status,
           download.presigned_expires_at,
+          download.upload_id,
+          download.requested_by,
+          download.options,
+          download.encryption_key_id,
+          download.encryption_fingerprint,
+          download.api_key_id,
+          download.on_behalf_of,
+          download.reason,
+          download.ticket,
+          download.tags,
+          download.parent_download_id,
+          download.root_download_id,
+          download.attempt ?? 1,
         ],
         (err) => {
           if (err) reject(err);
@@ -94,11 +510,16 @@ class DBService {
     });
   }
 
+  /**
+   * Moves a download to `status` unless it already finished. Returns false
+   * when nothing changed, so a late transition (e.g. verified after a
+   * cancel) can't overwrite a final status.
+   */
   async updateDownloadStatus(
     downloadId: string,
     status: string,
     meta?: Partial<Download>,
-  ): Promise<void> {
+  ): Promise<boolean> {
     return new Promise((resolve, reject) => {
       let sql =
         "UPDATE downloads SET status = ?, updated_at = CURRENT_TIMESTAMP";
@@ -117,18 +538,94 @@ class DBService {
           sql += ", content_type = ?";
           params.push(meta.content_type);
         }
+        if (meta.verification_method !== undefined) {
+          sql += ", verification_method = ?";
+          params.push(meta.verification_method);
+        }
+        if (meta.error !== undefined) {
+          sql += ", error = ?";
+          params.push(meta.error);
+        }
+        if (meta.original_size !== undefined) {
+          sql += ", original_size = ?";
+          params.push(meta.original_size);
+        }
+        if (meta.original_sha256 !== undefined) {
+          sql += ", original_sha256 = ?";
+          params.push(meta.original_sha256);
+        }
+        if (meta.manifest !== undefined) {
+          sql += ", manifest = ?";
+          params.push(meta.manifest);
+        }
       }
 
-      sql += " WHERE download_id = ?";
-      params.push(downloadId);
+      sql += ` WHERE download_id = ? AND status NOT IN (${TERMINAL_STATUSES.map(
+        () => "?",
+      ).join(", ")})`;
+      params.push(downloadId, ...TERMINAL_STATUSES);
 
-      this.db.run(sql, params, (err) => {
+      this.db.run(sql, params, function (err) {
         if (err) reject(err);
-        else resolve();
+        else resolve(this.changes > 0);
       });
     });
   }
 
+  /**
+   * Stores the latest progress report. Only pending downloads are updated
+   * so a late report can't overwrite a finished record.
+   */
+  async updateDownloadProgress(
+    downloadId: string,
+    progress: {
+      bytes: number;
+      total: number;
+      throughput: number;
+      attempt: number;
+      updatedAt: string;
+    },
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        `UPDATE downloads SET
+           progress_bytes = ?, progress_total = ?, progress_throughput = ?,
+           progress_attempt = ?, progress_updated_at = ?
+         WHERE download_id = ? AND status = 'pending'`,
+        [
+          progress.bytes,
+          progress.total,
+          progress.throughput,
+          progress.attempt,
+          progress.updatedAt,
+          downloadId,
+        ],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        },
+      );
+    });
+  }
+
+  // Moves the deadline of a pending download after its URLs were re-signed
+  async extendPresignedExpiry(
+    downloadId: string,
+    expiresAt: string,
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        `UPDATE downloads SET presigned_expires_at = ?, updated_at = CURRENT_TIMESTAMP
+         WHERE download_id = ? AND status = 'pending'`,
+        [expiresAt, downloadId],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        },
+      );
+    });
+  }
+
   async getDownload(downloadId: string): Promise<Download | null> {
     return new Promise((resolve, reject) => {
       this.db.get(
@@ -142,11 +639,60 @@ class DBService {
     });
   }
 
-  async listDownloads(clientId: string): Promise<Download[]> {
+  /**
+   * Returns the original download `rootDownloadId` and every retry of it,
+   * in attempt order.
+   */
+  async listAttempts(rootDownloadId: string): Promise<Download[]> {
     return new Promise((resolve, reject) => {
       this.db.all(
-        "SELECT * FROM downloads WHERE client_id = ? ORDER BY created_at DESC",
-        [clientId],
+        `SELECT * FROM downloads
+         WHERE download_id = ? OR root_download_id = ?
+         ORDER BY attempt ASC`,
+        [rootDownloadId, rootDownloadId],
+        (err, rows) => {
+          if (err) reject(err);
+          else resolve((rows as Download[]) || []);
+        },
+      );
+    });
+  }
+
+  /**
+   * Returns pending downloads whose presigned URL expired before `cutoff`
+   * (ISO timestamp) and that reported no progress since, and uploaded
+   * downloads whose verification started before `verifyCutoff` and never
+   * finished (e.g. the server restarted meanwhile). Uploads still sending
+   * progress are left alone.
+   */
+  async listOverdueDownloads(
+    cutoff: string,
+    verifyCutoff: string,
+  ): Promise<Download[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `SELECT * FROM downloads
+         WHERE (status = 'pending'
+                AND presigned_expires_at IS NOT NULL
+                AND presigned_expires_at < ?
+                AND (progress_updated_at IS NULL OR progress_updated_at < ?))
+            OR (status = 'uploaded' AND updated_at < ?)
+         ORDER BY presigned_expires_at ASC`,
+        [cutoff, cutoff, toSqliteTimestamp(verifyCutoff)],
+        (err, rows) => {
+          if (err) reject(err);
+          else resolve((rows as Download[]) || []);
+        },
+      );
+    });
+  }
+
+  // Queued downloads in the order they were created
+  async listQueuedDownloads(): Promise<Download[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        "SELECT * FROM downloads WHERE status = 'queued' ORDER BY rowid ASC",
+        [],
         (err, rows) => {
           if (err) reject(err);
           else resolve((rows as Download[]) || []);
@@ -154,6 +700,901 @@ class DBService {
       );
     });
   }
+
+  // Downloads holding an in-flight slot, per client
+  async countInFlightDownloads(): Promise<Map<string, number>> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `SELECT client_id, COUNT(*) AS count FROM downloads
+         WHERE status IN ('pending', 'uploaded')
+         GROUP BY client_id`,
+        [],
+        (err, rows: { client_id: string; count: number }[]) => {
+          if (err) reject(err);
+          else resolve(new Map(rows.map((r) => [r.client_id, r.count])));
+        },
+      );
+    });
+  }
+
+  /**
+   * Moves a queued download to pending, taking one of the in-flight slots.
+   * Returns false when it is no longer queued (e.g. cancelled meanwhile).
+   */
+  async claimQueuedDownload(
+    downloadId: string,
+    presignedExpiresAt: string,
+  ): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        `UPDATE downloads
+         SET status = 'pending', presigned_expires_at = ?,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE download_id = ? AND status = 'queued'`,
+        [presignedExpiresAt, downloadId],
+        function (err) {
+          if (err) reject(err);
+          else resolve(this.changes > 0);
+        },
+      );
+    });
+  }
+
+  /**
+   * Stores the presigned URL details of a pending download once they were
+   * issued. Returns false when it is no longer pending (e.g. cancelled
+   * while the URLs were signed).
+   */
+  async attachUpload(
+    downloadId: string,
+    upload: Pick<Download, "presigned_expires_at" | "upload_id">,
+  ): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        `UPDATE downloads
+         SET presigned_expires_at = ?, upload_id = ?,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE download_id = ? AND status = 'pending'`,
+        [upload.presigned_expires_at, upload.upload_id, downloadId],
+        function (err) {
+          if (err) reject(err);
+          else resolve(this.changes > 0);
+        },
+      );
+    });
+  }
+
+  // 1-based position of a queued download among all queued downloads
+  async getQueuePosition(downloadId: string): Promise<number | null> {
+    return new Promise((resolve, reject) => {
+      this.db.get(
+        `SELECT COUNT(*) AS position FROM downloads
+         WHERE status = 'queued'
+           AND rowid <= (SELECT rowid FROM downloads WHERE download_id = ?)`,
+        [downloadId],
+        (err, row: { position: number } | undefined) => {
+          if (err) reject(err);
+          else resolve(row?.position || null);
+        },
+      );
+    });
+  }
+
+  /**
+   * Lists downloads matching `query`, ordered by the sort column with
+   * download_id as tie-breaker. Pagination is keyset-based: `after` is the
+   * (sort value, download_id) of the last row of the previous page.
+   * Returns up to `limit` rows.
+   */
+  async listDownloads(
+    query: Omit<DownloadListQuery, "cursor">,
+    after?: { value: string; id: string },
+  ): Promise<Download[]> {
+    const column = query.sort === "updatedAt" ? "updated_at" : "created_at";
+    const direction = query.order === "asc" ? "ASC" : "DESC";
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (query.clientId) {
+      conditions.push("client_id = ?");
+      params.push(query.clientId);
+    }
+    if (query.clientIds) {
+      conditions.push(
+        `client_id IN (${query.clientIds.map(() => "?").join(", ")})`,
+      );
+      params.push(...query.clientIds);
+    }
+    if (query.status?.length) {
+      conditions.push(`status IN (${query.status.map(() => "?").join(", ")})`);
+      params.push(...query.status);
+    }
+    if (query.requestedBy) {
+      conditions.push("requested_by = ?");
+      params.push(query.requestedBy);
+    }
+    if (query.onBehalfOf) {
+      conditions.push("on_behalf_of = ?");
+      params.push(query.onBehalfOf);
+    }
+    if (query.ticket) {
+      conditions.push("ticket = ?");
+      params.push(query.ticket);
+    }
+    if (query.reason) {
+      conditions.push("reason LIKE ? ESCAPE '\\'");
+      params.push(`%${query.reason.replace(/[\\%_]/g, "\\$&")}%`);
+    }
+    for (const [key, value] of Object.entries(query.tags || {})) {
+      conditions.push("json_extract(tags, ?) = ?");
+      params.push(`$."${key}"`, value);
+    }
+    if (query.createdFrom) {
+      conditions.push("created_at >= ?");
+      params.push(toSqliteTimestamp(query.createdFrom));
+    }
+    if (query.createdTo) {
+      conditions.push("created_at < ?");
+      params.push(toSqliteTimestamp(query.createdTo));
+    }
+    if (query.filename) {
+      conditions.push("original_filename LIKE ? ESCAPE '\\'");
+      params.push(`%${query.filename.replace(/[\\%_]/g, "\\$&")}%`);
+    }
+    if (after) {
+      const op = direction === "ASC" ? ">" : "<";
+      conditions.push(
+        `(${column} ${op} ? OR (${column} = ? AND download_id ${op} ?))`,
+      );
+      params.push(after.value, after.value, after.id);
+    }
+
+    const where = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+    const sql = `
+      SELECT * FROM downloads ${where}
+      ORDER BY ${column} ${direction}, download_id ${direction}
+      LIMIT ?
+    `;
+    params.push(query.limit);
+
+    return new Promise((resolve, reject) => {
+      this.db.all(sql, params, (err, rows) => {
+        if (err) reject(err);
+        else resolve((rows as Download[]) || []);
+      });
+    });
+  }
+
+  async upsertClient(client: Omit<Client, "registered_at">): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const sql = `
+        INSERT INTO clients (
+          client_id, version, hostname, file_path, file_size, file_mtime,
+          last_seen_at, disconnected_at, registered_at, tags
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(client_id) DO UPDATE SET
+          version = excluded.version,
+          hostname = excluded.hostname,
+          file_path = excluded.file_path,
+          file_size = excluded.file_size,
+          file_mtime = excluded.file_mtime,
+          last_seen_at = excluded.last_seen_at,
+          disconnected_at = excluded.disconnected_at,
+          tags = excluded.tags
+      `;
+      this.db.run(
+        sql,
+        [
+          client.client_id,
+          client.version,
+          client.hostname,
+          client.file_path,
+          client.file_size,
+          client.file_mtime,
+          client.last_seen_at,
+          client.disconnected_at,
+          client.last_seen_at,
+          client.tags,
+        ],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        },
+      );
+    });
+  }
+
+  async getClient(clientId: string): Promise<Client | null> {
+    return new Promise((resolve, reject) => {
+      this.db.get(
+        "SELECT * FROM clients WHERE client_id = ?",
+        [clientId],
+        (err, row) => {
+          if (err) reject(err);
+          else resolve((row as Client) || null);
+        },
+      );
+    });
+  }
+
+  async listClients(): Promise<Client[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        "SELECT * FROM clients ORDER BY client_id ASC",
+        [],
+        (err, rows) => {
+          if (err) reject(err);
+          else resolve((rows as Client[]) || []);
+        },
+      );
+    });
+  }
+
+  async createEncryptionKey(
+    key: Omit<EncryptionKey, "created_at">,
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        `INSERT INTO encryption_keys (key_id, name, public_key, fingerprint)
+         VALUES (?, ?, ?, ?)`,
+        [key.key_id, key.name, key.public_key, key.fingerprint],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        },
+      );
+    });
+  }
+
+  async getEncryptionKey(keyId: string): Promise<EncryptionKey | null> {
+    return new Promise((resolve, reject) => {
+      this.db.get(
+        "SELECT * FROM encryption_keys WHERE key_id = ?",
+        [keyId],
+        (err, row) => {
+          if (err) reject(err);
+          else resolve((row as EncryptionKey) || null);
+        },
+      );
+    });
+  }
+
+  async listEncryptionKeys(): Promise<EncryptionKey[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        "SELECT * FROM encryption_keys ORDER BY created_at ASC, key_id ASC",
+        [],
+        (err, rows) => {
+          if (err) reject(err);
+          else resolve((rows as EncryptionKey[]) || []);
+        },
+      );
+    });
+  }
+
+  async createApiKey(
+    key: Omit<ApiKey, "created_at" | "revoked_at" | "last_used_at">,
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        `INSERT INTO api_keys (
+          key_id, name, prefix, key_hash, scopes, client_ids, expires_at,
+          created_by
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          key.key_id,
+          key.name,
+          key.prefix,
+          key.key_hash,
+          key.scopes,
+          key.client_ids,
+          key.expires_at,
+          key.created_by,
+        ],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        },
+      );
+    });
+  }
+
+  async getApiKey(keyId: string): Promise<ApiKey | null> {
+    return new Promise((resolve, reject) => {
+      this.db.get(
+        "SELECT * FROM api_keys WHERE key_id = ?",
+        [keyId],
+        (err, row) => {
+          if (err) reject(err);
+          else resolve((row as ApiKey) || null);
+        },
+      );
+    });
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | null> {
+    return new Promise((resolve, reject) => {
+      this.db.get(
+        "SELECT * FROM api_keys WHERE key_hash = ?",
+        [keyHash],
+        (err, row) => {
+          if (err) reject(err);
+          else resolve((row as ApiKey) || null);
+        },
+      );
+    });
+  }
+
+  async listApiKeys(): Promise<ApiKey[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        "SELECT * FROM api_keys ORDER BY created_at ASC, key_id ASC",
+        [],
+        (err, rows) => {
+          if (err) reject(err);
+          else resolve((rows as ApiKey[]) || []);
+        },
+      );
+    });
+  }
+
+  async revokeApiKey(keyId: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        "UPDATE api_keys SET revoked_at = ? WHERE key_id = ? AND revoked_at IS NULL",
+        [new Date().toISOString(), keyId],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        },
+      );
+    });
+  }
+
+  async touchApiKey(keyId: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        "UPDATE api_keys SET last_used_at = ? WHERE key_id = ?",
+        [new Date().toISOString(), keyId],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        },
+      );
+    });
+  }
+
+  async insertAuditEntry(entry: Omit<AuditLogRow, "id">): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        `INSERT INTO audit_log (
+          occurred_at, actor, api_key_id, action, outcome, download_id,
+          client_id, ip, user_agent, details
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          entry.occurred_at,
+          entry.actor,
+          entry.api_key_id,
+          entry.action,
+          entry.outcome,
+          entry.download_id,
+          entry.client_id,
+          entry.ip,
+          entry.user_agent,
+          entry.details,
+        ],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        },
+      );
+    });
+  }
+
+  /**
+   * Lists audit entries matching `query` in id order, starting after
+   * `query.after`. Returns up to `query.limit` rows.
+   */
+  async listAuditEntries(query: AuditQuery): Promise<AuditLogRow[]> {
+    const direction = query.order === "asc" ? "ASC" : "DESC";
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    const equals: [string, string | undefined][] = [
+      ["actor", query.actor],
+      ["api_key_id", query.apiKeyId],
+      ["outcome", query.outcome],
+      ["download_id", query.downloadId],
+      ["client_id", query.clientId],
+    ];
+    for (const [column, value] of equals) {
+      if (value) {
+        conditions.push(`${column} = ?`);
+        params.push(value);
+      }
+    }
+    if (query.action?.length) {
+      conditions.push(`action IN (${query.action.map(() => "?").join(", ")})`);
+      params.push(...query.action);
+    }
+    if (query.clientIds) {
+      conditions.push(
+        `client_id IN (${query.clientIds.map(() => "?").join(", ")})`,
+      );
+      params.push(...query.clientIds);
+    }
+    if (query.from) {
+      conditions.push("occurred_at >= ?");
+      params.push(query.from);
+    }
+    if (query.to) {
+      conditions.push("occurred_at < ?");
+      params.push(query.to);
+    }
+    if (query.after !== undefined) {
+      conditions.push(`id ${direction === "ASC" ? ">" : "<"} ?`);
+      params.push(query.after);
+    }
+
+    const where = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+    const sql = `SELECT * FROM audit_log ${where} ORDER BY id ${direction} LIMIT ?`;
+    params.push(query.limit);
+
+    return new Promise((resolve, reject) => {
+      this.db.all(sql, params, (err, rows) => {
+        if (err) reject(err);
+        else resolve((rows as AuditLogRow[]) || []);
+      });
+    });
+  }
+
+  /**
+   * Reserves an idempotency key. Returns false when the key is already
+   * taken (and not yet expired) for this API key.
+   */
+  async insertIdempotencyKey(
+    key: Omit<IdempotencyKey, "status_code" | "response" | "download_id">,
+  ): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        `INSERT OR IGNORE INTO idempotency_keys (
+          api_key_id, idempotency_key, fingerprint, created_at, expires_at
+        ) VALUES (?, ?, ?, ?, ?)`,
+        [
+          key.api_key_id,
+          key.idempotency_key,
+          key.fingerprint,
+          key.created_at,
+          key.expires_at,
+        ],
+        function (err) {
+          if (err) reject(err);
+          else resolve(this.changes > 0);
+        },
+      );
+    });
+  }
+
+  async getIdempotencyKey(
+    apiKeyId: string,
+    idempotencyKey: string,
+  ): Promise<IdempotencyKey | null> {
+    return new Promise((resolve, reject) => {
+      this.db.get(
+        `SELECT * FROM idempotency_keys
+         WHERE api_key_id = ? AND idempotency_key = ?`,
+        [apiKeyId, idempotencyKey],
+        (err, row) => {
+          if (err) reject(err);
+          else resolve((row as IdempotencyKey) || null);
+        },
+      );
+    });
+  }
+
+  async completeIdempotencyKey(
+    apiKeyId: string,
+    idempotencyKey: string,
+    result: { status_code: number; response: string; download_id?: string },
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        `UPDATE idempotency_keys
+         SET status_code = ?, response = ?, download_id = ?
+         WHERE api_key_id = ? AND idempotency_key = ?`,
+        [
+          result.status_code,
+          result.response,
+          result.download_id,
+          apiKeyId,
+          idempotencyKey,
+        ],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        },
+      );
+    });
+  }
+
+  async deleteIdempotencyKey(
+    apiKeyId: string,
+    idempotencyKey: string,
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        `DELETE FROM idempotency_keys
+         WHERE api_key_id = ? AND idempotency_key = ?`,
+        [apiKeyId, idempotencyKey],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        },
+      );
+    });
+  }
+
+  async deleteExpiredIdempotencyKeys(now: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        "DELETE FROM idempotency_keys WHERE expires_at <= ?",
+        [now],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        },
+      );
+    });
+  }
+
+  async createSchedule(
+    schedule: Omit<Schedule, "last_run_at" | "created_at" | "updated_at">,
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        `INSERT INTO schedules (
+          schedule_id, name, cron, timezone, client_ids, request, enabled,
+          next_run_at, created_by, api_key_id
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          schedule.schedule_id,
+          schedule.name,
+          schedule.cron,
+          schedule.timezone,
+          schedule.client_ids,
+          schedule.request,
+          schedule.enabled,
+          schedule.next_run_at,
+          schedule.created_by,
+          schedule.api_key_id,
+        ],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        },
+      );
+    });
+  }
+
+  async getSchedule(scheduleId: string): Promise<Schedule | null> {
+    return new Promise((resolve, reject) => {
+      this.db.get(
+        "SELECT * FROM schedules WHERE schedule_id = ?",
+        [scheduleId],
+        (err, row) => {
+          if (err) reject(err);
+          else resolve((row as Schedule) || null);
+        },
+      );
+    });
+  }
+
+  async listSchedules(): Promise<Schedule[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        "SELECT * FROM schedules ORDER BY created_at ASC, schedule_id ASC",
+        [],
+        (err, rows) => {
+          if (err) reject(err);
+          else resolve((rows as Schedule[]) || []);
+        },
+      );
+    });
+  }
+
+  // Enabled schedules whose next occurrence is at or before `now`
+  async listDueSchedules(now: string): Promise<Schedule[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `SELECT * FROM schedules
+         WHERE enabled = 1 AND next_run_at IS NOT NULL AND next_run_at <= ?
+         ORDER BY next_run_at ASC`,
+        [now],
+        (err, rows) => {
+          if (err) reject(err);
+          else resolve((rows as Schedule[]) || []);
+        },
+      );
+    });
+  }
+
+  async updateSchedule(
+    scheduleId: string,
+    changes: Partial<
+      Pick<
+        Schedule,
+        | "name"
+        | "cron"
+        | "timezone"
+        | "client_ids"
+        | "enabled"
+        | "next_run_at"
+        | "last_run_at"
+      >
+    >,
+  ): Promise<void> {
+    // Undefined fields are left as they are
+    const columns = (Object.keys(changes) as (keyof typeof changes)[]).filter(
+      (c) => changes[c] !== undefined,
+    );
+    if (columns.length === 0) return;
+
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        `UPDATE schedules
+         SET ${columns.map((c) => `${c} = ?`).join(", ")},
+             updated_at = CURRENT_TIMESTAMP
+         WHERE schedule_id = ?`,
+        [...columns.map((c) => changes[c]), scheduleId],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        },
+      );
+    });
+  }
+
+  async deleteSchedule(scheduleId: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.serialize(() => {
+        this.db.run("DELETE FROM schedule_runs WHERE schedule_id = ?", [
+          scheduleId,
+        ]);
+        this.db.run(
+          "DELETE FROM schedules WHERE schedule_id = ?",
+          [scheduleId],
+          (err) => {
+            if (err) reject(err);
+            else resolve();
+          },
+        );
+      });
+    });
+  }
+
+  /**
+   * Claims an occurrence of a schedule for one client. Returns the new run
+   * id, or null when the occurrence was already claimed.
+   */
+  async claimScheduleRun(
+    scheduleId: string,
+    clientId: string,
+    scheduledFor: string,
+  ): Promise<number | null> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        `INSERT OR IGNORE INTO schedule_runs (
+          schedule_id, client_id, scheduled_for, status
+        ) VALUES (?, ?, ?, 'running')`,
+        [scheduleId, clientId, scheduledFor],
+        function (err) {
+          if (err) reject(err);
+          else resolve(this.changes > 0 ? this.lastID : null);
+        },
+      );
+    });
+  }
+
+  async finishScheduleRun(
+    runId: number,
+    result: { status: string; download_id?: string; error?: string },
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        `UPDATE schedule_runs SET status = ?, download_id = ?, error = ?
+         WHERE run_id = ?`,
+        [result.status, result.download_id, result.error, runId],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        },
+      );
+    });
+  }
+
+  // The latest run for a client that created a download, if any
+  async getLastTriggeredRun(
+    scheduleId: string,
+    clientId: string,
+  ): Promise<ScheduleRun | null> {
+    return new Promise((resolve, reject) => {
+      this.db.get(
+        `SELECT * FROM schedule_runs
+         WHERE schedule_id = ? AND client_id = ? AND download_id IS NOT NULL
+         ORDER BY run_id DESC LIMIT 1`,
+        [scheduleId, clientId],
+        (err, row) => {
+          if (err) reject(err);
+          else resolve((row as ScheduleRun) || null);
+        },
+      );
+    });
+  }
+
+  // Runs of a schedule, newest first, before run id `before`
+  async listScheduleRuns(
+    scheduleId: string,
+    limit: number,
+    before?: number,
+  ): Promise<ScheduleRun[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `SELECT * FROM schedule_runs
+         WHERE schedule_id = ? ${before !== undefined ? "AND run_id < ?" : ""}
+         ORDER BY run_id DESC LIMIT ?`,
+        before !== undefined
+          ? [scheduleId, before, limit]
+          : [scheduleId, limit],
+        (err, rows) => {
+          if (err) reject(err);
+          else resolve((rows as ScheduleRun[]) || []);
+        },
+      );
+    });
+  }
+
+  /**
+   * Creates a batch with one waiting item per client, in order. Items go
+   * in first, in one statement, so a batch row never exists without them.
+   */
+  async createBatch(
+    batch: Omit<Batch, "created_at" | "completed_at">,
+    clientIds: string[],
+  ): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      this.db.run(
+        `INSERT INTO batch_items (batch_id, client_id, position, state)
+         VALUES ${clientIds.map(() => "(?, ?, ?, 'waiting')").join(", ")}`,
+        clientIds.flatMap((clientId, position) => [
+          batch.batch_id,
+          clientId,
+          position,
+        ]),
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        },
+      );
+    });
+
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        `INSERT INTO batches (
+          batch_id, name, client_ids, selector, concurrency, status,
+          request, created_by, api_key_id
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          batch.batch_id,
+          batch.name,
+          batch.client_ids,
+          batch.selector,
+          batch.concurrency,
+          batch.status,
+          batch.request,
+          batch.created_by,
+          batch.api_key_id,
+        ],
+        (err) => {
+          if (err) {
+            this.db.run("DELETE FROM batch_items WHERE batch_id = ?", [
+              batch.batch_id,
+            ]);
+            reject(err);
+          } else resolve();
+        },
+      );
+    });
+  }
+
+  async getBatch(batchId: string): Promise<Batch | null> {
+    return new Promise((resolve, reject) => {
+      this.db.get(
+        "SELECT * FROM batches WHERE batch_id = ?",
+        [batchId],
+        (err, row) => {
+          if (err) reject(err);
+          else resolve((row as Batch) || null);
+        },
+      );
+    });
+  }
+
+  async listRunningBatches(): Promise<Batch[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        "SELECT * FROM batches WHERE status = 'running' ORDER BY created_at ASC",
+        [],
+        (err, rows) => {
+          if (err) reject(err);
+          else resolve((rows as Batch[]) || []);
+        },
+      );
+    });
+  }
+
+  async completeBatch(batchId: string, completedAt: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        `UPDATE batches SET status = 'completed', completed_at = ?
+         WHERE batch_id = ? AND status = 'running'`,
+        [completedAt, batchId],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        },
+      );
+    });
+  }
+
+  // Items in client order, with the status of their download
+  async listBatchItems(batchId: string): Promise<BatchItem[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `SELECT i.*, d.status AS download_status, d.error AS download_error
+         FROM batch_items i
+         LEFT JOIN downloads d ON d.download_id = i.download_id
+         WHERE i.batch_id = ?
+         ORDER BY i.position ASC`,
+        [batchId],
+        (err, rows) => {
+          if (err) reject(err);
+          else resolve((rows as BatchItem[]) || []);
+        },
+      );
+    });
+  }
+
+  async getBatchItemByDownload(downloadId: string): Promise<BatchItem | null> {
+    return new Promise((resolve, reject) => {
+      this.db.get(
+        "SELECT * FROM batch_items WHERE download_id = ?",
+        [downloadId],
+        (err, row) => {
+          if (err) reject(err);
+          else resolve((row as BatchItem) || null);
+        },
+      );
+    });
+  }
+
+  async updateBatchItem(
+    batchId: string,
+    clientId: string,
+    result: { state: string; download_id?: string; error?: string },
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        `UPDATE batch_items
+         SET state = ?, download_id = ?, error = ?, updated_at = CURRENT_TIMESTAMP
+         WHERE batch_id = ? AND client_id = ?`,
+        [result.state, result.download_id, result.error, batchId, clientId],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        },
+      );
+    });
+  }
 }
 
 export default new DBService();
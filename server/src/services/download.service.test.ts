@@ -0,0 +1,113 @@
+process.env.DB_PATH = ":memory:";
+
+import { afterEach, before, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import dbService from "./db.service";
+import storageService from "./storage.service";
+import brokerService from "./broker.service";
+import downloadService from "./download.service";
+import { UploadCompleteEvent } from "../models/download.model";
+import { waitForDatabase } from "../test/database";
+
+const sha256 = "a".repeat(64);
+
+async function createPending(downloadId: string): Promise<void> {
+  await dbService.createDownload({
+    download_id: downloadId,
+    client_id: "client-1",
+    object_key: `client-1/${downloadId}-file.bin`,
+    original_filename: "file.bin",
+    status: "pending",
+    presigned_expires_at: new Date(Date.now() + 900 * 1000).toISOString(),
+  });
+}
+
+function completeEvent(downloadId: string): UploadCompleteEvent {
+  return {
+    event: "upload_complete",
+    downloadId,
+    objectKey: `client-1/${downloadId}-file.bin`,
+    size: 1024,
+    sha256,
+    status: "ok",
+    timestamp: new Date().toISOString(),
+  };
+}
+
+describe("DownloadService status transitions", () => {
+  before(waitForDatabase);
+
+  afterEach(() => mock.restoreAll());
+
+  function stubStorage(onHash: () => Promise<void> = async () => undefined) {
+    mock.method(brokerService, "publishCommand", async () => undefined);
+    mock.method(storageService, "verifyObjectExists", async () => true);
+    mock.method(storageService, "getObjectMetadata", async () => ({
+      size: 1024,
+      etag: "etag",
+    }));
+    mock.method(storageService, "computeObjectSha256", async () => {
+      await onHash();
+      return sha256;
+    });
+    return mock.method(storageService, "removeObject", async () => undefined);
+  }
+
+  it("verifies an upload that matches", async () => {
+    stubStorage();
+    await createPending("match");
+
+    await downloadService.handleUploadComplete(completeEvent("match"));
+
+    assert.equal((await dbService.getDownload("match"))?.status, "verified");
+  });
+
+  it("keeps a cancel that lands while the object is hashed", async () => {
+    const removeObject = stubStorage(async () => {
+      const result = await downloadService.cancelDownload("raced");
+      assert.equal(result?.cancelled, true);
+    });
+    await createPending("raced");
+
+    await downloadService.handleUploadComplete(completeEvent("raced"));
+
+    assert.equal((await dbService.getDownload("raced"))?.status, "cancelled");
+    // Removed again once verification saw the cancel
+    assert.ok(removeObject.mock.callCount() >= 2);
+  });
+
+  it("does not cancel a download that already finished", async () => {
+    stubStorage();
+    await createPending("done");
+    await downloadService.handleUploadComplete(completeEvent("done"));
+
+    const result = await downloadService.cancelDownload("done");
+
+    assert.equal(result?.cancelled, false);
+    assert.equal(result?.record.status, "verified");
+  });
+
+  it("signs URLs for concurrent triggers in parallel within the slot limits", async () => {
+    stubStorage();
+    let signing = 0;
+    let maxSigning = 0;
+    mock.method(storageService, "generatePresignedPutUrl", async () => {
+      maxSigning = Math.max(maxSigning, ++signing);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      signing--;
+      return "http://storage/put";
+    });
+
+    // MAX_IN_FLIGHT_PER_CLIENT defaults to 2
+    const records = await Promise.all(
+      [1, 2, 3].map(() => downloadService.triggerDownload("client-busy")),
+    );
+
+    assert.deepEqual(records.map((r) => r.status).sort(), [
+      "pending",
+      "pending",
+      "queued",
+    ]);
+    assert.equal(maxSigning, 2);
+  });
+});
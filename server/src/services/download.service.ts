@@ -1,80 +1,284 @@
+import { EventEmitter } from "events";
 import { v4 as uuidv4 } from "uuid";
 import storageService from "./storage.service";
 import brokerService from "./broker.service";
-import dbService from "./db.service";
+import dbService, { Download } from "./db.service";
+import clientService from "./client.service";
+import auditService from "./audit.service";
 import logger from "../utils/logger";
 import { sanitizeFilename } from "../utils/sanitizer";
 import {
+  ArchiveCompression,
+  ArchiveSpec,
+  DownloadProgress,
+  DownloadAttempt,
+  DownloadLineage,
+  DownloadListQuery,
+  DownloadOptions,
+  DownloadPage,
   DownloadRecord,
+  DownloadStatus,
+  DownloadUpdateType,
+  ManifestEntry,
+  MultipartUpload,
+  TERMINAL_STATUSES,
   UploadCommand,
   UploadEvent,
+  UploadCompression,
+  UploadProgressEvent,
+  UrlRefreshCommand,
+  UrlRefreshEvent,
 } from "../models/download.model";
+import { ENCRYPTION_ALGORITHM } from "../models/key.model";
+
+// S3 limits: parts are at least 5 MiB (except the last), at most 10,000
+const MIN_PART_SIZE = 5 * 1024 * 1024;
+const MAX_PARTS = 10000;
+
+// Part URLs sent with a streamed archive; the agent asks for more over
+// url_refresh as the archive grows
+const ARCHIVE_INITIAL_PARTS = 16;
+
+const ARCHIVE_EXTENSIONS: Record<ArchiveCompression, string> = {
+  none: ".tar",
+  gzip: ".tar.gz",
+  zstd: ".tar.zst",
+};
+
+const ARCHIVE_CONTENT_TYPES: Record<ArchiveCompression, string> = {
+  none: "application/x-tar",
+  gzip: "application/gzip",
+  zstd: "application/zstd",
+};
+
+const COMPRESSION_EXTENSIONS: Record<UploadCompression, string> = {
+  gzip: ".gz",
+  brotli: ".br",
+  zstd: ".zst",
+};
+
+const COMPRESSION_CONTENT_TYPES: Record<UploadCompression, string> = {
+  gzip: "application/gzip",
+  brotli: "application/x-brotli",
+  zstd: "application/zstd",
+};
+
+const ENCRYPTED_EXTENSION = ".enc";
+
+function contentTypeFor(options: DownloadOptions): string {
+  // Ciphertext is opaque whatever it wraps
+  if (options.encryption) {
+    return "application/octet-stream";
+  }
+  if (options.archive) {
+    return ARCHIVE_CONTENT_TYPES[options.archive.compression];
+  }
+  if (options.compression) {
+    return COMPRESSION_CONTENT_TYPES[options.compression];
+  }
+  return "application/octet-stream";
+}
+
+// A single directory is named after itself, anything else is "archive"
+function archiveFilename(archive: ArchiveSpec): string {
+  const [first] = archive.paths;
+  const base =
+    archive.paths.length === 1 && !/[*?]/.test(first)
+      ? first.replace(/\/+$/, "").split("/").pop()
+      : "";
+  return `${base || "archive"}${ARCHIVE_EXTENSIONS[archive.compression]}`;
+}
+
+// Pagination cursors are opaque to API callers
+function encodeCursor(cursor: { value: string; id: string }): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(cursor: string): { value: string; id: string } | null {
+  try {
+    const decoded = JSON.parse(
+      Buffer.from(cursor, "base64url").toString("utf8"),
+    );
+    if (typeof decoded?.value !== "string" || typeof decoded?.id !== "string") {
+      return null;
+    }
+    return decoded;
+  } catch (error) {
+    return null;
+  }
+}
+
+// Presigned URLs for one upload
+interface PreparedUpload {
+  presignedUrl: string;
+  expiresAt: string;
+  multipart?: MultipartUpload;
+}
+
+// A queued download that took a free slot; its command is still to be sent
+interface ClaimedDownload {
+  record: Download;
+  expiresInSeconds: number;
+}
+
+function expiryFrom(expiresInSeconds: number): string {
+  return new Date(Date.now() + expiresInSeconds * 1000).toISOString();
+}
 
 class DownloadService {
   private presignedExpiresSeconds: number;
+  private offlineQueueExpiresSeconds: number;
+  private multipartThresholdBytes: number;
+  private multipartPartSizeBytes: number;
+  private verifySha256: boolean;
+  // 0 disables a limit
+  private maxInFlightPerClient: number;
+  private maxInFlightGlobal: number;
+  private dispatchChain: Promise<unknown> = Promise.resolve();
+  private updates: EventEmitter = new EventEmitter();
 
   constructor() {
+    // One listener per open event stream
+    this.updates.setMaxListeners(0);
+    this.verifySha256 = process.env.VERIFY_SHA256 !== "false";
+    this.multipartThresholdBytes = parseInt(
+      process.env.MULTIPART_THRESHOLD_BYTES || "67108864",
+      10,
+    );
+    this.multipartPartSizeBytes = Math.max(
+      parseInt(process.env.MULTIPART_PART_SIZE_BYTES || "16777216", 10),
+      MIN_PART_SIZE,
+    );
     this.presignedExpiresSeconds = parseInt(
       process.env.PRESIGNED_EXPIRES_SEC || "900",
       10,
     );
+    this.offlineQueueExpiresSeconds = parseInt(
+      process.env.OFFLINE_QUEUE_EXPIRES_SEC || "86400",
+      10,
+    );
+    this.maxInFlightPerClient = parseInt(
+      process.env.MAX_IN_FLIGHT_PER_CLIENT || "2",
+      10,
+    );
+    this.maxInFlightGlobal = parseInt(
+      process.env.MAX_IN_FLIGHT_GLOBAL || "100",
+      10,
+    );
   }
 
+  /**
+   * Creates a download and sends the upload command to the client. When
+   * the client already has MAX_IN_FLIGHT_PER_CLIENT downloads in progress,
+   * or the server MAX_IN_FLIGHT_GLOBAL, the download is queued instead and
+   * sent once a slot frees up. With `queueIfOffline` the command may wait
+   * in the client's stream (see expirySeconds).
+   */
   async triggerDownload(
     clientId: string,
     originalFilename?: string,
-    meta?: { requestedBy?: string },
+    meta?: DownloadRecord["meta"],
+    queueIfOffline: boolean = false,
+    options: DownloadOptions = {},
+    lineage?: DownloadLineage,
   ): Promise<DownloadRecord> {
     try {
       const downloadId = uuidv4();
-      const sanitizedName = sanitizeFilename(originalFilename);
+      // Without an explicit name, name the artifact after the requested file
+      const sanitizedName = sanitizeFilename(
+        originalFilename ||
+          options.file?.name ||
+          options.file?.path ||
+          (options.archive && archiveFilename(options.archive)),
+      );
       // New object key format: clientId/downloadId-sanitizedFilename
-      const objectKey = `${clientId}/${downloadId}-${sanitizedName}`;
+      const extension =
+        (options.compression
+          ? COMPRESSION_EXTENSIONS[options.compression]
+          : "") + (options.encryption ? ENCRYPTED_EXTENSION : "");
+      const objectKey = `${clientId}/${downloadId}-${sanitizedName}${extension}`;
 
-      const now = new Date().toISOString();
-      const expiresAt = new Date(
-        Date.now() + this.presignedExpiresSeconds * 1000,
-      ).toISOString();
+      const expiresInSeconds = this.expirySeconds(queueIfOffline);
 
-      // Generate presigned PUT URL
-      const presignedUrl = await storageService.generatePresignedPutUrl(
-        objectKey,
-        this.presignedExpiresSeconds,
-      );
+      // Only the slot accounting runs under the lock; URLs are signed and
+      // commands sent once it was released
+      const { status, claimed } = await this.withDispatchLock(async () => {
+        // Older queued downloads get any free slot first
+        const claimed = await this.claimQueuedLocked();
+
+        const inFlight = await dbService.countInFlightDownloads();
+        const status: DownloadStatus = this.hasFreeSlot(inFlight, clientId)
+          ? "pending"
+          : "queued";
 
-      // Create download record in DB
-      await dbService.createDownload({
-        download_id: downloadId,
-        client_id: clientId,
-        object_key: objectKey,
-        original_filename: originalFilename || sanitizedName,
-        status: "pending",
-        presigned_expires_at: expiresAt,
+        // Create download record in DB
+        await dbService.createDownload({
+          download_id: downloadId,
+          client_id: clientId,
+          object_key: objectKey,
+          original_filename: originalFilename || sanitizedName,
+          status,
+          // Lets the reaper expire it should its command never go out
+          presigned_expires_at:
+            status === "pending" ? expiryFrom(expiresInSeconds) : undefined,
+          requested_by: meta?.requestedBy,
+          api_key_id: meta?.apiKeyId,
+          on_behalf_of: meta?.onBehalfOf,
+          reason: meta?.reason,
+          ticket: meta?.ticket,
+          tags: meta?.tags ? JSON.stringify(meta.tags) : undefined,
+          parent_download_id: lineage?.parentDownloadId,
+          root_download_id: lineage?.rootDownloadId,
+          attempt: lineage?.attempt,
+          options: JSON.stringify(options),
+          encryption_key_id: options.encryption?.keyId,
+          encryption_fingerprint: options.encryption?.fingerprint,
+        });
+        return { status, claimed };
       });
+      // Not awaited: this download need not wait for the older ones' URLs
+      this.sendClaimed(claimed).catch((err) =>
+        logger.error("Error dispatching queued downloads:", err),
+      );
+      await this.notify(downloadId, "status");
 
+      const now = new Date().toISOString();
       const record: DownloadRecord = {
         downloadId,
         clientId,
         objectKey,
-        status: "pending",
-        presignedUrl,
-        expiresAt,
+        options,
+        status,
+        attempt: lineage?.attempt ?? 1,
+        parentDownloadId: lineage?.parentDownloadId,
+        rootDownloadId: lineage?.rootDownloadId,
         createdAt: now,
         updatedAt: now,
         meta,
       };
 
-      // Publish command to client
-      const command: UploadCommand = {
-        cmd: "upload",
-        downloadId,
-        objectKey,
-        presignedUrl,
-        expiresAt,
-        meta,
-      };
+      if (status === "queued") {
+        record.queuePosition =
+          (await dbService.getQueuePosition(downloadId)) ?? undefined;
+        logger.info(`Queued download for client ${clientId}`, {
+          downloadId,
+          queuePosition: record.queuePosition,
+        });
+        return record;
+      }
 
-      await brokerService.publishCommand(clientId, command);
+      const upload = await this.sendUpload(
+        { download_id: downloadId, client_id: clientId, object_key: objectKey },
+        options,
+        expiresInSeconds,
+        meta,
+      );
+      if (!upload) {
+        // Cancelled before its command went out
+        return (await this.getDownloadStatus(downloadId)) ?? record;
+      }
+      record.presignedUrl = upload.presignedUrl;
+      record.expiresAt = upload.expiresAt;
 
       logger.info(`Triggered download for client ${clientId}`, {
         downloadId,
@@ -89,6 +293,288 @@ class DownloadService {
     }
   }
 
+  /**
+   * Sends queued downloads, oldest first, while slots are free. Runs
+   * whenever a download reaches a final status, and on startup for
+   * downloads queued before a restart.
+   */
+  async dispatchQueued(): Promise<void> {
+    const claimed = await this.withDispatchLock(() => this.claimQueuedLocked());
+    await this.sendClaimed(claimed);
+  }
+
+  // Slot accounting only holds while admissions and claims run one at a
+  // time
+  private withDispatchLock<T>(fn: () => Promise<T>): Promise<T> {
+    const run = this.dispatchChain.then(fn);
+    this.dispatchChain = run.catch(() => undefined);
+    return run;
+  }
+
+  // Claims free slots for queued downloads, oldest first; their commands
+  // are sent once the lock was released
+  private async claimQueuedLocked(): Promise<ClaimedDownload[]> {
+    const queued = await dbService.listQueuedDownloads();
+    if (queued.length === 0) return [];
+
+    const inFlight = await dbService.countInFlightDownloads();
+    const claimed: ClaimedDownload[] = [];
+    for (const record of queued) {
+      if (this.globalLimitReached(inFlight)) break;
+      if (!this.hasFreeSlot(inFlight, record.client_id)) continue;
+
+      // The command waits in the stream of an agent that is away, as with
+      // queueIfOffline, so its URLs must last as long
+      const client = await clientService.getClient(record.client_id);
+      const expiresInSeconds = this.expirySeconds(client?.status !== "online");
+
+      // False when it was cancelled meanwhile
+      if (
+        await dbService.claimQueuedDownload(
+          record.download_id,
+          expiryFrom(expiresInSeconds),
+        )
+      ) {
+        claimed.push({ record, expiresInSeconds });
+        inFlight.set(
+          record.client_id,
+          (inFlight.get(record.client_id) || 0) + 1,
+        );
+      }
+    }
+    return claimed;
+  }
+
+  private async sendClaimed(claimed: ClaimedDownload[]): Promise<void> {
+    await Promise.all(claimed.map((c) => this.sendQueuedDownload(c)));
+  }
+
+  // Sends a claimed queued download; one that can't be sent is marked
+  // failed by sendUpload
+  private async sendQueuedDownload({
+    record,
+    expiresInSeconds,
+  }: ClaimedDownload): Promise<void> {
+    const downloadId = record.download_id;
+    const options: DownloadOptions = record.options
+      ? JSON.parse(record.options)
+      : {};
+
+    try {
+      await this.recordStatusChange(downloadId, "pending", record.client_id);
+
+      const upload = await this.sendUpload(
+        record,
+        options,
+        expiresInSeconds,
+        this.toRecord(record).meta,
+      );
+      if (upload) {
+        logger.info(`Dispatched queued download ${downloadId}`, {
+          clientId: record.client_id,
+        });
+      }
+    } catch (error) {
+      logger.error(`Error dispatching queued download ${downloadId}:`, error);
+    }
+  }
+
+  /**
+   * Presigns the URLs of a pending download, which already holds its slot,
+   * and sends the upload command. Returns null when the download was
+   * cancelled meanwhile. If the command can't be sent the download is
+   * marked failed and the error rethrown.
+   */
+  private async sendUpload(
+    record: Pick<Download, "download_id" | "client_id" | "object_key">,
+    options: DownloadOptions,
+    expiresInSeconds: number,
+    meta?: DownloadRecord["meta"],
+  ): Promise<PreparedUpload | null> {
+    const downloadId = record.download_id;
+
+    let upload: PreparedUpload | undefined;
+    try {
+      upload = await this.prepareUpload(
+        record.client_id,
+        record.object_key,
+        expiresInSeconds,
+        options,
+      );
+
+      const attached = await dbService.attachUpload(downloadId, {
+        presigned_expires_at: upload.expiresAt,
+        upload_id: upload.multipart?.uploadId,
+      });
+      if (!attached) {
+        await this.cleanupStorage({
+          ...record,
+          upload_id: upload.multipart?.uploadId,
+        });
+        return null;
+      }
+
+      await brokerService.publishCommand(
+        record.client_id,
+        this.buildUploadCommand(
+          downloadId,
+          record.object_key,
+          options,
+          upload,
+          meta,
+        ),
+      );
+      return upload;
+    } catch (error) {
+      await this.setStatus(downloadId, "failed", {
+        error: `Could not send the upload command: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      }).catch(() => undefined);
+      if (upload) {
+        await this.cleanupStorage({
+          ...record,
+          upload_id: upload.multipart?.uploadId,
+        });
+      }
+      throw error;
+    }
+  }
+
+  private hasFreeSlot(
+    inFlight: Map<string, number>,
+    clientId: string,
+  ): boolean {
+    return (
+      !this.globalLimitReached(inFlight) &&
+      (this.maxInFlightPerClient <= 0 ||
+        (inFlight.get(clientId) || 0) < this.maxInFlightPerClient)
+    );
+  }
+
+  private globalLimitReached(inFlight: Map<string, number>): boolean {
+    if (this.maxInFlightGlobal <= 0) return false;
+
+    let total = 0;
+    inFlight.forEach((count) => (total += count));
+    return total >= this.maxInFlightGlobal;
+  }
+
+  /**
+   * With `queueIfOffline` the command may wait in the client's stream, so
+   * the presigned URL is issued for OFFLINE_QUEUE_EXPIRES_SEC instead and
+   * is still valid when the agent comes back.
+   */
+  private expirySeconds(queueIfOffline: boolean): number {
+    return queueIfOffline
+      ? Math.max(this.offlineQueueExpiresSeconds, this.presignedExpiresSeconds)
+      : this.presignedExpiresSeconds;
+  }
+
+  // Presigned URLs for one upload, issued when its command is sent
+  private async prepareUpload(
+    clientId: string,
+    objectKey: string,
+    expiresInSeconds: number,
+    options: DownloadOptions,
+  ): Promise<PreparedUpload> {
+    const expiresAt = expiryFrom(expiresInSeconds);
+
+    // Generate presigned PUT URL
+    const presignedUrl = await storageService.generatePresignedPutUrl(
+      objectKey,
+      expiresInSeconds,
+    );
+
+    const multipart = await this.planMultipartUpload(
+      clientId,
+      objectKey,
+      expiresInSeconds,
+      options,
+    );
+
+    return { presignedUrl, expiresAt, multipart };
+  }
+
+  private buildUploadCommand(
+    downloadId: string,
+    objectKey: string,
+    options: DownloadOptions,
+    upload: PreparedUpload,
+    meta?: DownloadRecord["meta"],
+  ): UploadCommand {
+    return {
+      cmd: "upload",
+      downloadId,
+      objectKey,
+      presignedUrl: upload.presignedUrl,
+      expiresAt: upload.expiresAt,
+      file: options.file,
+      archive: options.archive,
+      compression: options.compression,
+      encryption: options.encryption && {
+        publicKey: options.encryption.publicKey,
+      },
+      multipart: upload.multipart,
+      meta,
+    };
+  }
+
+  /**
+   * Initiates a multipart upload when the client last reported a file at or
+   * above MULTIPART_THRESHOLD_BYTES. The server can't see the file, so parts
+   * are sized from the registry; one spare part absorbs modest growth.
+   * Heartbeats only describe the default file, so other files use a single
+   * PUT. Archives are always multipart: the agent streams them in parts as
+   * it packs them, without knowing their size up front.
+   */
+  private async planMultipartUpload(
+    clientId: string,
+    objectKey: string,
+    expiresInSeconds: number,
+    options: DownloadOptions,
+  ): Promise<MultipartUpload | undefined> {
+    if (options.archive) {
+      const uploadId = await storageService.createMultipartUpload(objectKey);
+      const parts = await storageService.generatePresignedPartUrls(
+        objectKey,
+        uploadId,
+        Array.from({ length: ARCHIVE_INITIAL_PARTS }, (_, i) => i + 1),
+        expiresInSeconds,
+      );
+      return { uploadId, partSize: this.multipartPartSizeBytes, parts };
+    }
+
+    const client = await clientService.getClient(clientId);
+    const { file } = options;
+
+    if (file?.name || (file?.path && file.path !== client?.filePath)) {
+      return undefined;
+    }
+
+    const expectedSize = client?.fileSize;
+
+    if (!expectedSize || expectedSize < this.multipartThresholdBytes) {
+      return undefined;
+    }
+
+    const partSize = Math.max(
+      this.multipartPartSizeBytes,
+      Math.ceil(expectedSize / (MAX_PARTS - 1)),
+    );
+    const partCount = Math.ceil(expectedSize / partSize) + 1;
+
+    const uploadId = await storageService.createMultipartUpload(objectKey);
+    const parts = await storageService.generatePresignedPartUrls(
+      objectKey,
+      uploadId,
+      Array.from({ length: partCount }, (_, i) => i + 1),
+      expiresInSeconds,
+    );
+
+    return { uploadId, partSize, parts };
+  }
+
   async handleUploadComplete(event: UploadEvent): Promise<void> {
     const { downloadId } = event;
 
@@ -99,12 +585,61 @@ class DownloadService {
         return;
       }
 
+      // An agent may only report on its own downloads
+      if (event.clientId && event.clientId !== record.client_id) {
+        logger.warn(
+          `Ignoring ${event.event} for ${downloadId} from ${event.clientId}`,
+        );
+        return;
+      }
+
+      if (TERMINAL_STATUSES.includes(record.status)) {
+        logger.warn(
+          `Ignoring ${event.event} for ${downloadId} in status ${record.status}`,
+        );
+        // An upload that finished after cancellation/expiry must not linger
+        if (
+          event.event === "upload_complete" &&
+          (record.status === "cancelled" || record.status === "expired")
+        ) {
+          await this.cleanupStorage(record);
+        }
+        return;
+      }
+
       if (event.event === "upload_complete") {
-        await dbService.updateDownloadStatus(downloadId, "uploaded", {
+        if (record.upload_id) {
+          if (event.parts?.length) {
+            await storageService.completeMultipartUpload(
+              record.object_key,
+              record.upload_id,
+              event.parts,
+            );
+          } else {
+            // The client fell back to the single PUT URL
+            await storageService.abortMultipartUpload(
+              record.object_key,
+              record.upload_id,
+            );
+          }
+        }
+
+        const options: DownloadOptions = record.options
+          ? JSON.parse(record.options)
+          : {};
+
+        const accepted = await this.setStatus(downloadId, "uploaded", {
           size: event.size,
           sha256: event.sha256,
-          content_type: "application/octet-stream",
+          content_type: contentTypeFor(options),
+          original_size: event.originalSize,
+          original_sha256: event.originalSha256,
+          manifest: event.manifest ? JSON.stringify(event.manifest) : undefined,
         });
+        if (!accepted) {
+          await this.discardLateUpload(record);
+          return;
+        }
 
         logger.info(`Upload complete for ${downloadId}`, {
           size: event.size,
@@ -116,7 +651,9 @@ class DownloadService {
         );
 
         if (!exists) {
-          await dbService.updateDownloadStatus(downloadId, "failed");
+          await this.setStatus(downloadId, "failed", {
+            error: "Verification failed: object not found in storage",
+          });
           logger.error(
             `Verification failed: object not found for ${downloadId}`,
           );
@@ -128,7 +665,9 @@ class DownloadService {
         );
 
         if (!metadata) {
-          await dbService.updateDownloadStatus(downloadId, "failed");
+          await this.setStatus(downloadId, "failed", {
+            error: "Verification failed: could not read object metadata",
+          });
           logger.error(
             `Verification failed: could not get metadata for ${downloadId}`,
           );
@@ -136,7 +675,9 @@ class DownloadService {
         }
 
         if (metadata.size !== event.size) {
-          await dbService.updateDownloadStatus(downloadId, "failed");
+          await this.setStatus(downloadId, "failed", {
+            error: `Size mismatch: client reported ${event.size} bytes, stored object has ${metadata.size}`,
+          });
           logger.error(`Verification failed: size mismatch for ${downloadId}`, {
             expected: event.size,
             actual: metadata.size,
@@ -144,54 +685,452 @@ class DownloadService {
           return;
         }
 
-        await dbService.updateDownloadStatus(downloadId, "verified");
-        logger.info(`Download verified successfully: ${downloadId}`);
+        let verificationMethod = "size";
+
+        if (this.verifySha256) {
+          // Hash what storage actually holds instead of trusting the client
+          const actualSha256 = await storageService.computeObjectSha256(
+            record.object_key,
+          );
+
+          if (actualSha256 !== event.sha256) {
+            await this.setStatus(downloadId, "failed", {
+              verification_method: "sha256",
+              error: `SHA-256 mismatch: client reported ${event.sha256}, stored object is ${actualSha256}`,
+            });
+            logger.error(
+              `Verification failed: SHA-256 mismatch for ${downloadId}`,
+              { expected: event.sha256, actual: actualSha256 },
+            );
+            return;
+          }
+
+          verificationMethod = "sha256";
+        }
+
+        // Cancelling or expiring while the object was hashed removed it; the
+        // conditional update keeps that final status
+        const verified = await this.setStatus(downloadId, "verified", {
+          verification_method: verificationMethod,
+        });
+        if (!verified) {
+          await this.discardLateUpload(record);
+          return;
+        }
+        logger.info(`Download verified successfully: ${downloadId}`, {
+          verificationMethod,
+        });
       } else if (event.event === "upload_failed") {
-        await dbService.updateDownloadStatus(downloadId, "failed");
+        await this.setStatus(downloadId, "failed", {
+          error: event.reason,
+        });
         logger.error(`Upload failed for ${downloadId}: ${event.reason}`);
+
+        if (record.upload_id) {
+          await storageService.abortMultipartUpload(
+            record.object_key,
+            record.upload_id,
+          );
+        }
       }
     } catch (error) {
       logger.error(`Error handling upload complete for ${downloadId}:`, error);
       try {
-        await dbService.updateDownloadStatus(downloadId, "failed");
+        await this.setStatus(downloadId, "failed", {
+          error: "Verification error, see server logs",
+        });
       } catch (e) {
         /* ignore */
       }
     }
   }
 
-  async getDownloadStatus(downloadId: string): Promise<DownloadRecord | null> {
+  async handleUploadProgress(event: UploadProgressEvent): Promise<void> {
+    try {
+      if (event.clientId) {
+        const record = await dbService.getDownload(event.downloadId);
+        if (!record || record.client_id !== event.clientId) {
+          logger.warn(
+            `Ignoring progress for ${event.downloadId} from ${event.clientId}`,
+          );
+          return;
+        }
+      }
+
+      await dbService.updateDownloadProgress(event.downloadId, {
+        bytes: event.bytesSent,
+        total: event.totalBytes,
+        throughput: event.throughputBps,
+        attempt: event.attempt,
+        updatedAt: new Date().toISOString(),
+      });
+      await this.notify(event.downloadId, "progress");
+    } catch (error) {
+      logger.error(`Error recording progress for ${event.downloadId}:`, error);
+    }
+  }
+
+  /**
+   * Re-signs the URLs of a pending upload for an agent whose URLs expired
+   * (late command, long backoff, slow link). The new URLs are valid for
+   * PRESIGNED_EXPIRES_SEC and the download's deadline moves with them.
+   * Downloads that are no longer pending get an error reply instead.
+   */
+  async handleUrlRefresh(event: UrlRefreshEvent): Promise<void> {
+    const { downloadId, requestId } = event;
+
+    try {
+      const record = await dbService.getDownload(downloadId);
+
+      // An agent may only refresh its own downloads
+      if (!record || (event.clientId && event.clientId !== record.client_id)) {
+        logger.warn(
+          `Ignoring url_refresh for ${downloadId} from ${event.clientId}`,
+        );
+        return;
+      }
+
+      const reply: UrlRefreshCommand = {
+        cmd: "url_refresh",
+        requestId,
+        downloadId,
+      };
+
+      if (record.status !== "pending") {
+        reply.error = `Download is ${record.status}`;
+      } else {
+        const expiresAt = new Date(
+          Date.now() + this.presignedExpiresSeconds * 1000,
+        ).toISOString();
+
+        reply.presignedUrl = await storageService.generatePresignedPutUrl(
+          record.object_key,
+          this.presignedExpiresSeconds,
+        );
+        if (record.upload_id && event.partNumbers?.length) {
+          reply.parts = await storageService.generatePresignedPartUrls(
+            record.object_key,
+            record.upload_id,
+            event.partNumbers.filter(
+              (n) => Number.isInteger(n) && n >= 1 && n <= MAX_PARTS,
+            ),
+            this.presignedExpiresSeconds,
+          );
+        }
+        reply.expiresAt = expiresAt;
+
+        await dbService.extendPresignedExpiry(downloadId, expiresAt);
+        await auditService.record({
+          actor: "system",
+          action: "download.url_refresh",
+          outcome: "success",
+          downloadId,
+          clientId: record.client_id,
+          details: { expiresAt, parts: reply.parts?.length },
+        });
+        logger.info(`Refreshed presigned URLs for ${downloadId}`, {
+          expiresAt,
+          parts: reply.parts?.length,
+        });
+      }
+
+      await brokerService.publishCommand(record.client_id, reply);
+    } catch (error) {
+      logger.error(`Error refreshing URLs for ${downloadId}:`, error);
+    }
+  }
+
+  /**
+   * Re-issues a failed, expired or cancelled download as a new attempt for
+   * the same client, file and options, linked to the download it retries.
+   * The request metadata is carried over; `requestedBy`/`apiKeyId` come
+   * from `meta`. Returns null for unknown downloads.
+   */
+  async retryDownload(
+    downloadId: string,
+    meta: DownloadRecord["meta"],
+    queueIfOffline: boolean = false,
+  ): Promise<DownloadRecord | null> {
+    const parent = await dbService.getDownload(downloadId);
+    if (!parent) return null;
+
+    const options: DownloadOptions = parent.options
+      ? JSON.parse(parent.options)
+      : {};
+
+    return this.triggerDownload(
+      parent.client_id,
+      parent.original_filename,
+      {
+        ...meta,
+        onBehalfOf: parent.on_behalf_of,
+        reason: parent.reason,
+        ticket: parent.ticket,
+        tags: parent.tags ? JSON.parse(parent.tags) : undefined,
+      },
+      queueIfOffline,
+      options,
+      {
+        parentDownloadId: parent.download_id,
+        rootDownloadId: parent.root_download_id || parent.download_id,
+        attempt: (parent.attempt || 1) + 1,
+      },
+    );
+  }
+
+  /**
+   * Lists every attempt of the request `downloadId` belongs to, oldest
+   * first. Returns null for unknown downloads.
+   */
+  async listAttempts(downloadId: string): Promise<DownloadAttempt[] | null> {
     const record = await dbService.getDownload(downloadId);
     if (!record) return null;
 
-    return {
-      downloadId: record.download_id,
-      clientId: record.client_id,
-      objectKey: record.object_key,
-      status: record.status as any,
-      createdAt: record.created_at || "",
-      updatedAt: record.updated_at || "",
-      size: record.size,
-      sha256: record.sha256,
+    const attempts = await dbService.listAttempts(
+      record.root_download_id || record.download_id,
+    );
+    return attempts.map((a) => ({
+      downloadId: a.download_id,
+      attempt: a.attempt || 1,
+      status: a.status,
+      createdAt: a.created_at || "",
+      error: a.error || undefined,
+    }));
+  }
+
+  /**
+   * Marks a download that never completed as expired and cleans up whatever
+   * reached storage. Does nothing if it finished meanwhile.
+   */
+  async expireDownload(record: Download, reason: string): Promise<void> {
+    const downloadId = record.download_id;
+
+    const expired = await this.setStatus(downloadId, "expired", {
+      error: reason,
+    });
+    if (!expired) return;
+    logger.warn(`Download expired: ${downloadId}`, { reason });
+
+    await this.cleanupStorage(record);
+  }
+
+  /**
+   * Cancels an in-flight download: the record becomes cancelled, the client
+   * is told to abort its upload and anything already in storage is removed.
+   * `cancelled` is false when the download had already finished; it is
+   * then left as it was. Returns null for unknown downloads.
+   */
+  async cancelDownload(
+    downloadId: string,
+    reason: string = "Cancelled by operator",
+  ): Promise<{ cancelled: boolean; record: DownloadRecord } | null> {
+    const record = await dbService.getDownload(downloadId);
+    if (!record) return null;
+
+    const cancelled = await this.setStatus(downloadId, "cancelled", {
+      error: reason,
+    });
+
+    if (cancelled) {
+      logger.info(`Download cancelled: ${downloadId}`, { reason });
+
+      // A queued download was never sent to the client
+      if (record.status !== "queued") {
+        try {
+          await brokerService.publishCommand(record.client_id, {
+            cmd: "cancel",
+            downloadId,
+            reason,
+          });
+        } catch (error) {
+          // The record is cancelled either way; a late upload gets cleaned up
+          logger.error(
+            `Error sending cancel command for ${downloadId}:`,
+            error,
+          );
+        }
+
+        // Re-read: its URLs may have been issued since
+        await this.cleanupStorage(
+          (await dbService.getDownload(downloadId)) ?? record,
+        );
+      }
+    }
+
+    const current = await this.getDownloadStatus(downloadId);
+    return current && { cancelled, record: current };
+  }
+
+  // Removes an upload that completed after its download was cancelled or
+  // expired. Its multipart upload was already completed or aborted.
+  private async discardLateUpload(record: Download): Promise<void> {
+    const current = await dbService.getDownload(record.download_id);
+    logger.warn(
+      `Discarding upload for ${record.download_id}: download is ${current?.status}`,
+    );
+    await this.cleanupStorage({ ...record, upload_id: undefined });
+  }
+
+  /**
+   * Removes whatever an unfinished download left in storage: an incomplete
+   * multipart upload, or an object whose completion was never accepted.
+   */
+  private async cleanupStorage(
+    record: Pick<Download, "download_id" | "object_key" | "upload_id">,
+  ): Promise<void> {
+    try {
+      if (record.upload_id) {
+        await storageService.abortMultipartUpload(
+          record.object_key,
+          record.upload_id,
+        );
+      }
+      if (await storageService.verifyObjectExists(record.object_key)) {
+        await storageService.removeObject(record.object_key);
+      }
+    } catch (error) {
+      logger.error(
+        `Error cleaning up storage for ${record.download_id}:`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Subscribes to download changes (status transitions and progress
+   * reports). Returns a function that removes the listener.
+   */
+  onUpdate(
+    listener: (type: DownloadUpdateType, record: DownloadRecord) => void,
+  ): () => void {
+    this.updates.on("update", listener);
+    return () => {
+      this.updates.off("update", listener);
     };
   }
 
-  async getAllDownloads(clientId: string): Promise<DownloadRecord[]> {
-    const records = await dbService.listDownloads(clientId);
-    return records.map((r) => ({
-      downloadId: r.download_id,
-      clientId: r.client_id,
-      objectKey: r.object_key,
-      status: r.status as any,
-      createdAt: r.created_at || "",
-      updatedAt: r.updated_at || "",
-      size: r.size,
-      sha256: r.sha256,
-    }));
+  // Returns false when the download had already finished (nothing changed)
+  private async setStatus(
+    downloadId: string,
+    status: DownloadStatus,
+    meta?: Partial<Download>,
+  ): Promise<boolean> {
+    const changed = await dbService.updateDownloadStatus(
+      downloadId,
+      status,
+      meta,
+    );
+    if (!changed) return false;
+
+    const record = await dbService.getDownload(downloadId);
+    await this.recordStatusChange(
+      downloadId,
+      status,
+      record?.client_id,
+      meta?.error,
+    );
+    return true;
   }
 
-  async getClientIds(): Promise<string[]> {
-    return [];
+  // Audits and publishes a status change that was already stored
+  private async recordStatusChange(
+    downloadId: string,
+    status: DownloadStatus,
+    clientId?: string,
+    error?: string,
+  ): Promise<void> {
+    // Who asked for the change is audited by the controllers; this records
+    // the transition itself
+    await auditService.record({
+      actor: "system",
+      action: `download.${status}`,
+      outcome: status === "failed" ? "failure" : "success",
+      downloadId,
+      clientId,
+      details: error ? { error } : undefined,
+    });
+
+    await this.notify(downloadId, "status");
+
+    // A finished download frees its slot. Not awaited: this may run while
+    // the dispatch lock is held
+    if (TERMINAL_STATUSES.includes(status)) {
+      this.dispatchQueued().catch((err) =>
+        logger.error("Error dispatching queued downloads:", err),
+      );
+    }
+  }
+
+  private async notify(
+    downloadId: string,
+    type: DownloadUpdateType,
+  ): Promise<void> {
+    if (this.updates.listenerCount("update") === 0) return;
+
+    try {
+      const record = await this.getDownloadStatus(downloadId);
+      if (record) {
+        this.updates.emit("update", type, record);
+      }
+    } catch (error) {
+      logger.error(`Error publishing update for ${downloadId}:`, error);
+    }
+  }
+
+  async getDownloadStatus(downloadId: string): Promise<DownloadRecord | null> {
+    const record = await dbService.getDownload(downloadId);
+    if (!record) return null;
+
+    const result = this.toRecord(record);
+    if (record.status === "queued") {
+      result.queuePosition =
+        (await dbService.getQueuePosition(downloadId)) ?? undefined;
+    }
+    return result;
+  }
+
+  /**
+   * Returns one page of downloads, or null if `query.cursor` is not a
+   * cursor this service issued.
+   */
+  async listDownloads(query: DownloadListQuery): Promise<DownloadPage | null> {
+    const { cursor, ...filters } = query;
+    const sortColumn = query.sort === "updatedAt" ? "updated_at" : "created_at";
+
+    const after = cursor ? decodeCursor(cursor) : undefined;
+    if (after === null) return null;
+
+    // Fetch one extra row to know whether another page exists
+    const rows = await dbService.listDownloads(
+      { ...filters, limit: query.limit + 1 },
+      after,
+    );
+
+    const page = rows.slice(0, query.limit);
+    const last = page[page.length - 1];
+    const nextCursor =
+      rows.length > query.limit && last
+        ? encodeCursor({
+            value: (last[sortColumn] as string) || "",
+            id: last.download_id,
+          })
+        : null;
+
+    return { downloads: page.map((r) => this.toRecord(r)), nextCursor };
+  }
+
+  /**
+   * Returns the file manifest of an archive download, or null when the
+   * download is unknown, not verified or not an archive.
+   */
+  async getManifest(downloadId: string): Promise<ManifestEntry[] | null> {
+    const record = await dbService.getDownload(downloadId);
+
+    if (!record || record.status !== "verified" || !record.manifest) {
+      return null;
+    }
+
+    return JSON.parse(record.manifest);
   }
 
   async getArtifactUrl(downloadId: string): Promise<string | null> {
@@ -202,10 +1141,23 @@ class DownloadService {
     }
 
     try {
+      // Compressed/encrypted uploads are served as-is, named with the
+      // matching extensions
+      const options: DownloadOptions = record.options
+        ? JSON.parse(record.options)
+        : {};
+      const filename =
+        record.original_filename +
+        (options.compression
+          ? COMPRESSION_EXTENSIONS[options.compression]
+          : "") +
+        (options.encryption ? ENCRYPTED_EXTENSION : "");
+
       const url = await storageService.generatePresignedGetUrl(
         record.object_key,
         3600,
-        record.original_filename,
+        filename,
+        record.content_type,
       );
       return url;
     } catch (error) {
@@ -213,6 +1165,73 @@ class DownloadService {
       throw error;
     }
   }
+
+  private toRecord(record: Download): DownloadRecord {
+    return {
+      downloadId: record.download_id,
+      clientId: record.client_id,
+      objectKey: record.object_key,
+      originalFilename: record.original_filename,
+      options: record.options ? JSON.parse(record.options) : undefined,
+      status: record.status as any,
+      attempt: record.attempt || 1,
+      parentDownloadId: record.parent_download_id,
+      rootDownloadId: record.root_download_id,
+      createdAt: record.created_at || "",
+      updatedAt: record.updated_at || "",
+      size: record.size,
+      sha256: record.sha256,
+      originalSize: record.original_size,
+      originalSha256: record.original_sha256,
+      encryption: record.encryption_fingerprint
+        ? {
+            algorithm: ENCRYPTION_ALGORITHM,
+            keyId: record.encryption_key_id,
+            fingerprint: record.encryption_fingerprint,
+          }
+        : undefined,
+      verificationMethod: record.verification_method,
+      progress: this.toProgress(record),
+      error: record.error,
+      meta:
+        record.requested_by ||
+        record.on_behalf_of ||
+        record.reason ||
+        record.ticket ||
+        record.tags
+          ? {
+              requestedBy: record.requested_by,
+              apiKeyId: record.api_key_id,
+              onBehalfOf: record.on_behalf_of,
+              reason: record.reason,
+              ticket: record.ticket,
+              tags: record.tags ? JSON.parse(record.tags) : undefined,
+            }
+          : undefined,
+    };
+  }
+
+  private toProgress(record: Download): DownloadProgress | undefined {
+    if (!record.progress_updated_at || !record.progress_total) {
+      return undefined;
+    }
+
+    const bytesSent = record.progress_bytes || 0;
+    const totalBytes = record.progress_total;
+    const throughputBps = record.progress_throughput || 0;
+    const remaining = Math.max(totalBytes - bytesSent, 0);
+
+    return {
+      bytesSent,
+      totalBytes,
+      percent: Math.round((bytesSent / totalBytes) * 1000) / 10,
+      throughputBps,
+      etaSeconds:
+        throughputBps > 0 ? Math.ceil(remaining / throughputBps) : null,
+      attempt: record.progress_attempt || 1,
+      updatedAt: record.progress_updated_at,
+    };
+  }
 }
 
 export default new DownloadService();
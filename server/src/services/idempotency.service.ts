@@ -0,0 +1,128 @@
+import crypto from "crypto";
+import dbService from "./db.service";
+import logger from "../utils/logger";
+
+export type IdempotencyReservation =
+  | { state: "new" }
+  // The original request finished; send its response again
+  | { state: "replay"; statusCode: number; body: unknown }
+  // The original request is still being handled
+  | { state: "in_progress" }
+  // The key was used for a different request
+  | { state: "mismatch" };
+
+// JSON with object keys sorted, so equal bodies hash equally regardless of
+// key order
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value)
+      .sort()
+      .map(
+        (key) => `${JSON.stringify(key)}:${canonicalJson((value as any)[key])}`,
+      );
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+class IdempotencyService {
+  private ttlSeconds: number;
+  // A reservation without a response from before this belongs to a request
+  // that died with the previous server process and may be claimed again.
+  // Newer ones are still being handled, however long that takes.
+  private startedAt: Date = new Date();
+
+  constructor() {
+    this.ttlSeconds = parseInt(process.env.IDEMPOTENCY_TTL_SEC || "86400", 10);
+  }
+
+  fingerprint(method: string, path: string, body: unknown): string {
+    return crypto
+      .createHash("sha256")
+      .update(`${method} ${path}\n${canonicalJson(body)}`)
+      .digest("hex");
+  }
+
+  /**
+   * Claims `key` for a request with `fingerprint`, or reports what became
+   * of the earlier request that used it. Keys are scoped to the API key and
+   * forgotten after IDEMPOTENCY_TTL_SEC.
+   */
+  async reserve(
+    apiKeyId: string,
+    key: string,
+    fingerprint: string,
+  ): Promise<IdempotencyReservation> {
+    const now = new Date();
+    await dbService.deleteExpiredIdempotencyKeys(now.toISOString());
+
+    const inserted = await dbService.insertIdempotencyKey({
+      api_key_id: apiKeyId,
+      idempotency_key: key,
+      fingerprint,
+      created_at: now.toISOString(),
+      expires_at: new Date(
+        now.getTime() + this.ttlSeconds * 1000,
+      ).toISOString(),
+    });
+    if (inserted) {
+      return { state: "new" };
+    }
+
+    const existing = await dbService.getIdempotencyKey(apiKeyId, key);
+    if (!existing) {
+      // Expired and removed in between; claim it again
+      return this.reserve(apiKeyId, key, fingerprint);
+    }
+    if (existing.fingerprint !== fingerprint) {
+      return { state: "mismatch" };
+    }
+    if (existing.status_code === null || existing.status_code === undefined) {
+      if (new Date(existing.created_at) >= this.startedAt) {
+        return { state: "in_progress" };
+      }
+      await this.release(apiKeyId, key);
+      return this.reserve(apiKeyId, key, fingerprint);
+    }
+
+    return {
+      state: "replay",
+      statusCode: existing.status_code,
+      body: existing.response ? JSON.parse(existing.response) : undefined,
+    };
+  }
+
+  // Stores the response a reserved key replays from now on
+  async complete(
+    apiKeyId: string,
+    key: string,
+    statusCode: number,
+    body: unknown,
+  ): Promise<void> {
+    const downloadId =
+      body && typeof body === "object" && "downloadId" in body
+        ? String((body as { downloadId: unknown }).downloadId)
+        : undefined;
+
+    await dbService.completeIdempotencyKey(apiKeyId, key, {
+      status_code: statusCode,
+      response: JSON.stringify(body),
+      download_id: downloadId,
+    });
+    logger.debug(`Stored idempotent response for key ${key}`, {
+      apiKeyId,
+      statusCode,
+      downloadId,
+    });
+  }
+
+  // Frees a key whose request failed, so the caller can retry with it
+  async release(apiKeyId: string, key: string): Promise<void> {
+    await dbService.deleteIdempotencyKey(apiKeyId, key);
+  }
+}
+
+export default new IdempotencyService();
@@ -0,0 +1,107 @@
+import crypto from "crypto";
+import { promisify } from "util";
+import { v4 as uuidv4 } from "uuid";
+import dbService, { EncryptionKey } from "./db.service";
+import logger from "../utils/logger";
+import { CreatedEncryptionKey, EncryptionKeyRecord } from "../models/key.model";
+
+const generateKeyPair = promisify(crypto.generateKeyPair);
+
+// Shorter RSA keys are rejected; generated pairs use GENERATED_KEY_BITS
+const MIN_KEY_BITS = 2048;
+
+class KeyService {
+  private generatedKeyBits: number;
+
+  constructor() {
+    this.generatedKeyBits = parseInt(
+      process.env.GENERATED_KEY_BITS || "3072",
+      10,
+    );
+  }
+
+  /**
+   * Parses a PEM public key, normalizing it to SPKI PEM. Throws when it is
+   * not an RSA key of at least MIN_KEY_BITS.
+   */
+  inspectPublicKey(pem: string): { publicKey: string; fingerprint: string } {
+    const key = crypto.createPublicKey(pem);
+
+    if (key.asymmetricKeyType !== "rsa") {
+      throw new Error("Only RSA public keys are supported");
+    }
+    const bits = key.asymmetricKeyDetails?.modulusLength || 0;
+    if (bits < MIN_KEY_BITS) {
+      throw new Error(`RSA keys must be at least ${MIN_KEY_BITS} bits`);
+    }
+
+    const der = key.export({ type: "spki", format: "der" });
+    return {
+      publicKey: key.export({ type: "spki", format: "pem" }).toString(),
+      fingerprint: crypto.createHash("sha256").update(der).digest("hex"),
+    };
+  }
+
+  /**
+   * Registers a recipient key. Without `publicKey` a new pair is generated
+   * and its private key is returned in the result, once.
+   */
+  async createKey(
+    name?: string,
+    publicKey?: string,
+  ): Promise<CreatedEncryptionKey> {
+    let privateKey: string | undefined;
+
+    if (!publicKey) {
+      const pair = await generateKeyPair("rsa", {
+        modulusLength: this.generatedKeyBits,
+        publicKeyEncoding: { type: "spki", format: "pem" },
+        privateKeyEncoding: { type: "pkcs8", format: "pem" },
+      });
+      publicKey = pair.publicKey;
+      privateKey = pair.privateKey;
+    }
+
+    const inspected = this.inspectPublicKey(publicKey);
+    const keyId = uuidv4();
+
+    await dbService.createEncryptionKey({
+      key_id: keyId,
+      name,
+      public_key: inspected.publicKey,
+      fingerprint: inspected.fingerprint,
+    });
+
+    logger.info(`Registered encryption key ${keyId}`, {
+      fingerprint: inspected.fingerprint,
+      generated: !!privateKey,
+    });
+
+    const key = await dbService.getEncryptionKey(keyId);
+    return { ...this.toRecord(key!), privateKey };
+  }
+
+  async getKey(keyId: string): Promise<EncryptionKeyRecord | null> {
+    const key = await dbService.getEncryptionKey(keyId);
+    if (!key) return null;
+
+    return this.toRecord(key);
+  }
+
+  async listKeys(): Promise<EncryptionKeyRecord[]> {
+    const keys = await dbService.listEncryptionKeys();
+    return keys.map((k) => this.toRecord(k));
+  }
+
+  private toRecord(key: EncryptionKey): EncryptionKeyRecord {
+    return {
+      keyId: key.key_id,
+      name: key.name,
+      publicKey: key.public_key,
+      fingerprint: key.fingerprint,
+      createdAt: key.created_at || "",
+    };
+  }
+}
+
+export default new KeyService();
@@ -0,0 +1,106 @@
+process.env.DB_PATH = ":memory:";
+process.env.REAPER_GRACE_SEC = "300";
+process.env.VERIFY_TIMEOUT_SEC = "3600";
+
+import { after, before, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import dbService from "./db.service";
+import storageService from "./storage.service";
+import reaperService from "./reaper.service";
+import { DownloadStatus } from "../models/download.model";
+import { waitForDatabase } from "../test/database";
+
+// An hour ago: well past the presigned expiry plus REAPER_GRACE_SEC
+const longAgo = new Date(Date.now() - 3600 * 1000).toISOString();
+
+async function createOverdue(
+  downloadId: string,
+  status: DownloadStatus,
+): Promise<void> {
+  await dbService.createDownload({
+    download_id: downloadId,
+    client_id: "client-1",
+    object_key: `client-1/${downloadId}-file.bin`,
+    original_filename: "file.bin",
+    status,
+    presigned_expires_at: longAgo,
+  });
+}
+
+async function statusOf(downloadId: string): Promise<DownloadStatus> {
+  const record = await dbService.getDownload(downloadId);
+  assert.ok(record, `${downloadId} exists`);
+  return record.status;
+}
+
+describe("ReaperService.sweep", () => {
+  before(waitForDatabase);
+
+  before(() => {
+    // Nothing reaches storage in these tests
+    mock.method(storageService, "verifyObjectExists", async () => false);
+  });
+
+  after(() => mock.restoreAll());
+
+  it("keeps a pending upload that is still reporting progress", async () => {
+    await createOverdue("active", "pending");
+    await dbService.updateDownloadProgress("active", {
+      bytes: 1024,
+      total: 4096,
+      throughput: 512,
+      attempt: 1,
+      updatedAt: new Date().toISOString(),
+    });
+
+    await reaperService.sweep();
+
+    assert.equal(await statusOf("active"), "pending");
+  });
+
+  it("expires a pending upload whose progress stopped", async () => {
+    await createOverdue("stalled", "pending");
+    await dbService.updateDownloadProgress("stalled", {
+      bytes: 1024,
+      total: 4096,
+      throughput: 512,
+      attempt: 1,
+      updatedAt: longAgo,
+    });
+
+    await reaperService.sweep();
+
+    assert.equal(await statusOf("stalled"), "expired");
+  });
+
+  it("expires a pending upload that never reported progress", async () => {
+    await createOverdue("silent", "pending");
+
+    await reaperService.sweep();
+
+    assert.equal(await statusOf("silent"), "expired");
+  });
+
+  it("keeps an upload that is being verified", async () => {
+    await createOverdue("verifying", "uploaded");
+
+    await reaperService.sweep();
+
+    assert.equal(await statusOf("verifying"), "uploaded");
+  });
+
+  it("expires an upload whose verification never finished", async () => {
+    await createOverdue("interrupted", "uploaded");
+    const now = Date.now();
+    // Two hours on, past VERIFY_TIMEOUT_SEC
+    const clock = mock.method(Date, "now", () => now + 7200 * 1000);
+
+    try {
+      await reaperService.sweep();
+    } finally {
+      clock.mock.restore();
+    }
+
+    assert.equal(await statusOf("interrupted"), "expired");
+  });
+});
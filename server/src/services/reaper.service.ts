@@ -0,0 +1,83 @@
+import dbService from "./db.service";
+import downloadService from "./download.service";
+import logger from "../utils/logger";
+
+/**
+ * Periodically expires downloads that are still pending after their
+ * presigned URL ran out (plus a grace period), so records whose client
+ * never answered don't stay pending forever. A progress report within the
+ * grace period keeps a long upload alive. Downloads stuck in uploaded for
+ * longer than VERIFY_TIMEOUT_SEC (verification interrupted by a restart)
+ * are expired too, so they don't hold an in-flight slot forever.
+ */
+class ReaperService {
+  private timer: NodeJS.Timeout | null = null;
+  private intervalMs: number;
+  private graceSeconds: number;
+  private verifyTimeoutSeconds: number;
+  private running: boolean = false;
+
+  constructor() {
+    this.intervalMs =
+      parseInt(process.env.REAPER_INTERVAL_SEC || "60", 10) * 1000;
+    this.graceSeconds = parseInt(process.env.REAPER_GRACE_SEC || "300", 10);
+    this.verifyTimeoutSeconds = parseInt(
+      process.env.VERIFY_TIMEOUT_SEC || "3600",
+      10,
+    );
+  }
+
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => this.sweep(), this.intervalMs);
+    logger.info(
+      `Reaper started (every ${this.intervalMs / 1000}s, grace ${this.graceSeconds}s)`,
+    );
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async sweep(): Promise<void> {
+    // Skip this tick if the previous sweep is still cleaning up
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const cutoff = new Date(
+        Date.now() - this.graceSeconds * 1000,
+      ).toISOString();
+      const verifyCutoff = new Date(
+        Date.now() - this.verifyTimeoutSeconds * 1000,
+      ).toISOString();
+      const overdue = await dbService.listOverdueDownloads(
+        cutoff,
+        verifyCutoff,
+      );
+
+      for (const record of overdue) {
+        await downloadService.expireDownload(
+          record,
+          record.status === "uploaded"
+            ? `Timed out in status uploaded: verification did not finish within ${this.verifyTimeoutSeconds}s`
+            : `Timed out in status ${record.status}: presigned URL expired at ${record.presigned_expires_at}`,
+        );
+      }
+
+      if (overdue.length > 0) {
+        logger.info(`Reaper expired ${overdue.length} download(s)`);
+      }
+    } catch (error) {
+      logger.error("Error during reaper sweep:", error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+export default new ReaperService();
@@ -0,0 +1,354 @@
+import { v4 as uuidv4 } from "uuid";
+import { parseExpression } from "cron-parser";
+import dbService, { Schedule, ScheduleRun } from "./db.service";
+import downloadService from "./download.service";
+import clientService from "./client.service";
+import auditService from "./audit.service";
+import apiKeyService from "./api-key.service";
+import { canAccessClient, hasScope } from "../middleware/auth.middleware";
+import logger from "../utils/logger";
+import { Principal } from "../models/api-key.model";
+import { summarizeTemplate } from "../utils/download-request";
+import { DownloadTemplate, TERMINAL_STATUSES } from "../models/download.model";
+import {
+  ScheduleRecord,
+  ScheduleRunPage,
+  ScheduleRunRecord,
+  ScheduleRunStatus,
+} from "../models/schedule.model";
+
+export interface NewSchedule {
+  name: string;
+  cron: string;
+  timezone: string;
+  clientIds: string[];
+  enabled: boolean;
+  request: DownloadTemplate;
+}
+
+export type ScheduleChanges = Partial<
+  Pick<NewSchedule, "name" | "cron" | "timezone" | "clientIds" | "enabled">
+>;
+
+class ScheduleService {
+  /**
+   * First occurrence of `cron` in `timezone` strictly after `after`. Throws
+   * when the expression can't be parsed.
+   */
+  nextRun(cron: string, timezone: string, after: Date = new Date()): string {
+    return parseExpression(cron, { currentDate: after, tz: timezone })
+      .next()
+      .toDate()
+      .toISOString();
+  }
+
+  async createSchedule(
+    schedule: NewSchedule,
+    principal?: Principal,
+  ): Promise<ScheduleRecord> {
+    const scheduleId = uuidv4();
+
+    await dbService.createSchedule({
+      schedule_id: scheduleId,
+      name: schedule.name,
+      cron: schedule.cron,
+      timezone: schedule.timezone,
+      client_ids: JSON.stringify(schedule.clientIds),
+      request: JSON.stringify(schedule.request),
+      enabled: schedule.enabled ? 1 : 0,
+      next_run_at: this.nextRun(schedule.cron, schedule.timezone),
+      created_by: principal?.name,
+      api_key_id: principal?.keyId,
+    });
+
+    logger.info(`Created schedule ${scheduleId}`, {
+      name: schedule.name,
+      cron: schedule.cron,
+      timezone: schedule.timezone,
+    });
+
+    const created = await dbService.getSchedule(scheduleId);
+    return this.toRecord(created!);
+  }
+
+  async getSchedule(scheduleId: string): Promise<ScheduleRecord | null> {
+    const schedule = await dbService.getSchedule(scheduleId);
+    if (!schedule) return null;
+
+    return this.toRecord(schedule);
+  }
+
+  async listSchedules(): Promise<ScheduleRecord[]> {
+    const schedules = await dbService.listSchedules();
+    return schedules.map((s) => this.toRecord(s));
+  }
+
+  /**
+   * Applies `changes` to a schedule. A new expression or timezone, or
+   * re-enabling, computes the next run from now, so occurrences missed
+   * while disabled are not fired. Returns null for unknown schedules.
+   */
+  async updateSchedule(
+    scheduleId: string,
+    changes: ScheduleChanges,
+  ): Promise<ScheduleRecord | null> {
+    const schedule = await dbService.getSchedule(scheduleId);
+    if (!schedule) return null;
+
+    const cron = changes.cron ?? schedule.cron;
+    const timezone = changes.timezone ?? schedule.timezone;
+    const reschedule =
+      changes.cron !== undefined ||
+      changes.timezone !== undefined ||
+      (changes.enabled === true && !schedule.enabled);
+
+    await dbService.updateSchedule(scheduleId, {
+      name: changes.name,
+      cron: changes.cron,
+      timezone: changes.timezone,
+      client_ids: changes.clientIds && JSON.stringify(changes.clientIds),
+      enabled: changes.enabled === undefined ? undefined : +changes.enabled,
+      next_run_at: reschedule ? this.nextRun(cron, timezone) : undefined,
+    });
+
+    const updated = await dbService.getSchedule(scheduleId);
+    return updated ? this.toRecord(updated) : null;
+  }
+
+  /**
+   * Deletes a schedule and its run history. Downloads it already created
+   * are kept. Returns null for unknown schedules.
+   */
+  async deleteSchedule(scheduleId: string): Promise<ScheduleRecord | null> {
+    const schedule = await dbService.getSchedule(scheduleId);
+    if (!schedule) return null;
+
+    await dbService.deleteSchedule(scheduleId);
+    logger.info(`Deleted schedule ${scheduleId}`);
+
+    return this.toRecord(schedule);
+  }
+
+  // Runs of a schedule, newest first; null for unknown schedules
+  async listRuns(
+    scheduleId: string,
+    limit: number,
+    before?: number,
+  ): Promise<ScheduleRunPage | null> {
+    const schedule = await dbService.getSchedule(scheduleId);
+    if (!schedule) return null;
+
+    // Fetch one extra row to know whether another page exists
+    const rows = await dbService.listScheduleRuns(
+      scheduleId,
+      limit + 1,
+      before,
+    );
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+
+    return {
+      runs: page.map((row) => this.toRunRecord(row)),
+      nextCursor: rows.length > limit && last ? String(last.run_id) : null,
+    };
+  }
+
+  /**
+   * Fires every enabled schedule whose next run is due. Each occurrence is
+   * claimed per client before anything is triggered, so an occurrence is
+   * never fired twice, even across restarts. Occurrences missed while the
+   * server was down are fired once, not one by one. Runs act with the
+   * current rights of the key that created the schedule; once that key is
+   * revoked, expired or deleted the schedule is disabled.
+   */
+  async runDue(now: Date = new Date()): Promise<void> {
+    const due = await dbService.listDueSchedules(now.toISOString());
+
+    for (const schedule of due) {
+      const scheduledFor = schedule.next_run_at!;
+      const clientIds: string[] = JSON.parse(schedule.client_ids);
+      const principal = schedule.api_key_id
+        ? await apiKeyService.getPrincipal(schedule.api_key_id)
+        : null;
+
+      for (const clientId of clientIds) {
+        await this.runForClient(schedule, clientId, scheduledFor, principal);
+      }
+
+      if (!principal) {
+        logger.warn(
+          `Disabling schedule ${schedule.schedule_id}: its API key is no longer valid`,
+          { apiKeyId: schedule.api_key_id },
+        );
+      }
+
+      let nextRunAt: string | undefined;
+      try {
+        nextRunAt = this.nextRun(schedule.cron, schedule.timezone, now);
+      } catch (error) {
+        // Validated when saved; only a changed cron-parser could get here
+        logger.error(`Schedule ${schedule.schedule_id} has no next run`, error);
+      }
+
+      await dbService.updateSchedule(schedule.schedule_id, {
+        last_run_at: scheduledFor,
+        next_run_at: nextRunAt,
+        enabled: principal && nextRunAt ? undefined : 0,
+      });
+    }
+  }
+
+  private async runForClient(
+    schedule: Schedule,
+    clientId: string,
+    scheduledFor: string,
+    principal: Principal | null,
+  ): Promise<void> {
+    const scheduleId = schedule.schedule_id;
+    const runId = await dbService.claimScheduleRun(
+      scheduleId,
+      clientId,
+      scheduledFor,
+    );
+    if (runId === null) {
+      logger.debug(
+        `Schedule ${scheduleId} already ran for ${clientId} at ${scheduledFor}`,
+      );
+      return;
+    }
+
+    const finish = async (
+      status: ScheduleRunStatus,
+      result: { downloadId?: string; error?: string } = {},
+    ) => {
+      await dbService.finishScheduleRun(runId, {
+        status,
+        download_id: result.downloadId,
+        error: result.error,
+      });
+      logger.info(`Schedule ${scheduleId} ${status} for ${clientId}`, {
+        scheduledFor,
+        ...result,
+      });
+    };
+
+    try {
+      const denied = !principal
+        ? "The API key that created the schedule is revoked, expired or deleted"
+        : !hasScope(principal, "downloads:trigger")
+          ? "The API key that created the schedule lacks scope downloads:trigger"
+          : !canAccessClient(principal, clientId)
+            ? "The API key that created the schedule may not access this client"
+            : null;
+      if (denied) {
+        await auditService.record({
+          actor: `schedule:${schedule.name}`,
+          apiKeyId: schedule.api_key_id,
+          action: "download.trigger",
+          outcome: "denied",
+          clientId,
+          details: { scheduleId, scheduledFor, reason: denied },
+        });
+        await finish("failed", { error: denied });
+        return;
+      }
+
+      // Skip rather than pile up while the previous run is still going
+      const previous = await dbService.getLastTriggeredRun(
+        scheduleId,
+        clientId,
+      );
+      const previousDownload =
+        previous?.download_id &&
+        (await dbService.getDownload(previous.download_id));
+      if (
+        previousDownload &&
+        !TERMINAL_STATUSES.includes(previousDownload.status)
+      ) {
+        await finish("skipped", {
+          error: `Previous download ${previousDownload.download_id} is still ${previousDownload.status}`,
+        });
+        return;
+      }
+
+      const request: DownloadTemplate = JSON.parse(schedule.request);
+      const client = await clientService.getClient(clientId);
+      if (!client) {
+        await finish("failed", { error: "Client not found" });
+        return;
+      }
+      const queued = client.status !== "online";
+      if (queued && !request.queueIfOffline) {
+        await finish("failed", { error: "Client is not online" });
+        return;
+      }
+
+      const record = await downloadService.triggerDownload(
+        clientId,
+        request.originalFilename,
+        {
+          requestedBy: schedule.created_by,
+          apiKeyId: schedule.api_key_id,
+          onBehalfOf: request.onBehalfOf,
+          reason: request.reason,
+          ticket: request.ticket,
+          // Lets GET /downloads?tag=schedule:<id> find what a schedule created
+          tags: { ...request.tags, schedule: scheduleId },
+        },
+        queued,
+        request.options,
+      );
+
+      await auditService.record({
+        actor: `schedule:${schedule.name}`,
+        apiKeyId: schedule.api_key_id,
+        action: "download.trigger",
+        outcome: "success",
+        downloadId: record.downloadId,
+        clientId,
+        details: { scheduleId, scheduledFor, queued },
+      });
+
+      await finish("triggered", { downloadId: record.downloadId });
+    } catch (error) {
+      logger.error(`Error running schedule ${scheduleId} for ${clientId}:`, {
+        error,
+      });
+      await finish("failed", {
+        error: error instanceof Error ? error.message : String(error),
+      }).catch(() => undefined);
+    }
+  }
+
+  private toRecord(schedule: Schedule): ScheduleRecord {
+    return {
+      scheduleId: schedule.schedule_id,
+      name: schedule.name,
+      cron: schedule.cron,
+      timezone: schedule.timezone,
+      clientIds: JSON.parse(schedule.client_ids),
+      enabled: !!schedule.enabled,
+      request: summarizeTemplate(JSON.parse(schedule.request)),
+      nextRunAt: schedule.next_run_at || undefined,
+      lastRunAt: schedule.last_run_at || undefined,
+      createdBy: schedule.created_by || undefined,
+      createdAt: schedule.created_at || "",
+      updatedAt: schedule.updated_at || "",
+    };
+  }
+
+  private toRunRecord(run: ScheduleRun): ScheduleRunRecord {
+    return {
+      runId: run.run_id,
+      scheduleId: run.schedule_id,
+      clientId: run.client_id,
+      scheduledFor: run.scheduled_for,
+      status: run.status as ScheduleRunStatus,
+      downloadId: run.download_id || undefined,
+      error: run.error || undefined,
+      createdAt: run.created_at || "",
+    };
+  }
+}
+
+export default new ScheduleService();
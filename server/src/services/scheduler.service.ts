@@ -0,0 +1,49 @@
+import scheduleService from "./schedule.service";
+import logger from "../utils/logger";
+
+/**
+ * Periodically fires the schedules that are due. Schedules are stored in
+ * SQLite, so after a restart the first tick picks up whatever came due
+ * while the server was down.
+ */
+class SchedulerService {
+  private timer: NodeJS.Timeout | null = null;
+  private intervalMs: number;
+  private running: boolean = false;
+
+  constructor() {
+    this.intervalMs =
+      parseInt(process.env.SCHEDULER_INTERVAL_SEC || "30", 10) * 1000;
+  }
+
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => this.tick(), this.intervalMs);
+    logger.info(`Scheduler started (every ${this.intervalMs / 1000}s)`);
+    this.tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async tick(): Promise<void> {
+    // Skip this tick if the previous one is still triggering downloads
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      await scheduleService.runDue();
+    } catch (error) {
+      logger.error("Error running due schedules:", error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+export default new SchedulerService();
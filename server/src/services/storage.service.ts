@@ -1,10 +1,19 @@
+import crypto from "crypto";
 import { Client } from "minio";
-import { S3Client, GetObjectCommand } from "@aws-sdk/client-s3";
+import {
+  S3Client,
+  GetObjectCommand,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+} from "@aws-sdk/client-s3";
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
 import logger from "../utils/logger";
 
 class StorageService {
   private client: Client;
+  private internalS3Client: S3Client;
   private externalS3Client: S3Client;
   private bucket: string;
   private externalEndpoint: string;
@@ -23,6 +32,18 @@ class StorageService {
       secretKey: process.env.MINIO_SECRET_KEY || "minioadmin",
     });
 
+    // Internal AWS SDK client for multipart uploads; part URLs are used by
+    // clients inside Docker, so they are signed for the internal hostname
+    this.internalS3Client = new S3Client({
+      endpoint: `${process.env.MINIO_USE_SSL === "true" ? "https" : "http"}://${endpoint}`,
+      region: "us-east-1",
+      credentials: {
+        accessKeyId: process.env.MINIO_ACCESS_KEY || "minioadmin",
+        secretAccessKey: process.env.MINIO_SECRET_KEY || "minioadmin",
+      },
+      forcePathStyle: true,
+    });
+
     // External client for generating presigned URLs accessible from host
     // We use AWS SDK because it supports offline signing (doesn't try to connect to localhost from inside docker)
     this.externalEndpoint =
@@ -87,6 +108,7 @@ class StorageService {
     objectKey: string,
     expiresIn: number = 3600,
     originalFilename?: string,
+    contentType?: string,
   ): Promise<string> {
     try {
       // Use AWS SDK to generate URL offline suitable for external access (localhost)
@@ -99,6 +121,10 @@ class StorageService {
         commandInput.ResponseContentDisposition = `attachment; filename="${originalFilename}"`;
       }
 
+      if (contentType) {
+        commandInput.ResponseContentType = contentType;
+      }
+
       const command = new GetObjectCommand(commandInput);
 
       const url = await getSignedUrl(this.externalS3Client, command, {
@@ -118,6 +144,125 @@ class StorageService {
     }
   }
 
+  async createMultipartUpload(objectKey: string): Promise<string> {
+    try {
+      const result = await this.internalS3Client.send(
+        new CreateMultipartUploadCommand({
+          Bucket: this.bucket,
+          Key: objectKey,
+          ContentType: "application/octet-stream",
+        }),
+      );
+
+      if (!result.UploadId) {
+        throw new Error("Storage did not return an UploadId");
+      }
+
+      logger.debug(`Initiated multipart upload for ${objectKey}`, {
+        uploadId: result.UploadId,
+      });
+      return result.UploadId;
+    } catch (error) {
+      logger.error(
+        `Error initiating multipart upload for ${objectKey}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  async generatePresignedPartUrls(
+    objectKey: string,
+    uploadId: string,
+    partNumbers: number[],
+    expiresIn: number = 900,
+  ): Promise<{ partNumber: number; url: string }[]> {
+    try {
+      const parts = await Promise.all(
+        partNumbers.map(async (partNumber) => {
+          const command = new UploadPartCommand({
+            Bucket: this.bucket,
+            Key: objectKey,
+            UploadId: uploadId,
+            PartNumber: partNumber,
+          });
+          const url = await getSignedUrl(this.internalS3Client, command, {
+            expiresIn,
+          });
+          return { partNumber, url };
+        }),
+      );
+
+      logger.debug(
+        `Generated ${parts.length} presigned part URLs for ${objectKey}, expires in ${expiresIn}s`,
+      );
+      return parts;
+    } catch (error) {
+      logger.error(`Error generating part URLs for ${objectKey}:`, error);
+      throw error;
+    }
+  }
+
+  async completeMultipartUpload(
+    objectKey: string,
+    uploadId: string,
+    parts: { partNumber: number; etag: string }[],
+  ): Promise<void> {
+    try {
+      const sortedParts = [...parts].sort(
+        (a, b) => a.partNumber - b.partNumber,
+      );
+
+      await this.internalS3Client.send(
+        new CompleteMultipartUploadCommand({
+          Bucket: this.bucket,
+          Key: objectKey,
+          UploadId: uploadId,
+          MultipartUpload: {
+            Parts: sortedParts.map((p) => ({
+              PartNumber: p.partNumber,
+              ETag: p.etag,
+            })),
+          },
+        }),
+      );
+
+      logger.info(`Completed multipart upload for ${objectKey}`, {
+        uploadId,
+        parts: sortedParts.length,
+      });
+    } catch (error) {
+      logger.error(
+        `Error completing multipart upload for ${objectKey}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  async abortMultipartUpload(
+    objectKey: string,
+    uploadId: string,
+  ): Promise<void> {
+    try {
+      await this.internalS3Client.send(
+        new AbortMultipartUploadCommand({
+          Bucket: this.bucket,
+          Key: objectKey,
+          UploadId: uploadId,
+        }),
+      );
+      logger.info(`Aborted multipart upload for ${objectKey}`, { uploadId });
+    } catch (error: any) {
+      // Already completed or aborted uploads are gone; nothing to clean up
+      if (error.name === "NoSuchUpload") {
+        return;
+      }
+      logger.error(`Error aborting multipart upload for ${objectKey}:`, error);
+      throw error;
+    }
+  }
+
   async verifyObjectExists(objectKey: string): Promise<boolean> {
     try {
       await this.client.statObject(this.bucket, objectKey);
@@ -149,6 +294,36 @@ class StorageService {
     }
   }
 
+  async removeObject(objectKey: string): Promise<void> {
+    try {
+      await this.client.removeObject(this.bucket, objectKey);
+      logger.info(`Removed object ${objectKey}`);
+    } catch (error) {
+      logger.error(`Error removing object ${objectKey}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Streams the stored object back and returns its SHA-256 (hex), so
+   * verification doesn't depend on the checksum the client reports.
+   */
+  async computeObjectSha256(objectKey: string): Promise<string> {
+    try {
+      const stream = await this.client.getObject(this.bucket, objectKey);
+      const hash = crypto.createHash("sha256");
+
+      for await (const chunk of stream) {
+        hash.update(chunk);
+      }
+
+      return hash.digest("hex");
+    } catch (error) {
+      logger.error(`Error hashing object ${objectKey}:`, error);
+      throw error;
+    }
+  }
+
   private replaceHostInUrl(url: string): string {
     const internalEndpoint = process.env.MINIO_ENDPOINT || "localhost:9000";
     return url.replace(internalEndpoint, this.externalEndpoint);
@@ -0,0 +1,17 @@
+import dbService from "../services/db.service";
+
+/**
+ * Waits until the schema exists; it is created once the connection is
+ * open. Tests set DB_PATH to ":memory:" before importing any service.
+ */
+export async function waitForDatabase(): Promise<void> {
+  for (let i = 0; i < 50; i++) {
+    try {
+      await dbService.getDownload("warm-up");
+      return;
+    } catch {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+  }
+  throw new Error("Database schema was not created in time");
+}
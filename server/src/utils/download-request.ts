@@ -0,0 +1,149 @@
+import Joi from "joi";
+import keyService from "../services/key.service";
+import {
+  ArchiveSpec,
+  DownloadOptions,
+  DownloadTemplate,
+  DownloadTemplateSummary,
+  EncryptionOptions,
+  UploadCompression,
+} from "../models/download.model";
+
+// Tag keys are also used in JSON paths when filtering, so keep them plain
+export const tagKeyPattern = /^[a-zA-Z0-9_.-]{1,64}$/;
+
+// What to download and how, as accepted by POST /download/:clientId and
+// by schedules
+export interface DownloadRequest {
+  reason?: string;
+  requestedBy?: string;
+  ticket?: string;
+  tags?: Record<string, string>;
+  originalFilename?: string;
+  queueIfOffline?: boolean;
+  filePath?: string;
+  fileName?: string;
+  archive?: ArchiveSpec;
+  compression?: UploadCompression;
+  encryption?: { publicKey?: string; keyId?: string };
+}
+
+export const downloadRequestSchema = Joi.object({
+  reason: Joi.string().max(500).optional(),
+  requestedBy: Joi.string().email().optional(),
+  ticket: Joi.string().max(128).optional(),
+  tags: Joi.object()
+    .pattern(tagKeyPattern, Joi.string().max(256))
+    .max(20)
+    .optional(),
+  originalFilename: Joi.string().max(255).optional(),
+  queueIfOffline: Joi.boolean().optional(),
+  // Absolute path on the agent, or a logical name from its FILE_ALIASES
+  filePath: Joi.string().max(4096).pattern(/^\//, "absolute path").optional(),
+  fileName: Joi.string()
+    .pattern(/^[a-zA-Z0-9._-]+$/)
+    .max(128)
+    .optional(),
+  // Directories or glob patterns to pack into one tar archive
+  archive: Joi.object({
+    paths: Joi.array()
+      .items(Joi.string().max(4096).pattern(/^\//, "absolute path"))
+      .min(1)
+      .max(100)
+      .required(),
+    compression: Joi.string().valid("none", "gzip", "zstd").default("gzip"),
+  }).optional(),
+  // Applied by the agent while uploading a single file
+  compression: Joi.string().valid("gzip", "brotli", "zstd").optional(),
+  // Recipient for end-to-end encryption: a PEM public key or a registered key
+  encryption: Joi.object({
+    publicKey: Joi.string().max(16384),
+    keyId: Joi.string().uuid(),
+  })
+    .xor("publicKey", "keyId")
+    .optional(),
+})
+  .oxor("filePath", "fileName", "archive")
+  .oxor("archive", "compression");
+
+/**
+ * Turns a validated request into the options stored with a download,
+ * resolving the encryption recipient. Returns a 400 response body when the
+ * key is unknown or the public key is unusable.
+ */
+export async function buildDownloadOptions(
+  request: DownloadRequest,
+): Promise<{ options: DownloadOptions } | { error: string; details?: string }> {
+  const file =
+    request.filePath || request.fileName
+      ? { path: request.filePath, name: request.fileName }
+      : undefined;
+
+  let encryption: EncryptionOptions | undefined;
+  if (request.encryption?.keyId) {
+    const key = await keyService.getKey(request.encryption.keyId);
+    if (!key) {
+      return { error: "Unknown encryption key" };
+    }
+    encryption = {
+      publicKey: key.publicKey,
+      fingerprint: key.fingerprint,
+      keyId: key.keyId,
+    };
+  } else if (request.encryption?.publicKey) {
+    try {
+      encryption = keyService.inspectPublicKey(request.encryption.publicKey);
+    } catch (err) {
+      return {
+        error: "Invalid public key",
+        details: err instanceof Error ? err.message : String(err),
+      };
+    }
+  }
+
+  return {
+    options: {
+      file,
+      archive: request.archive,
+      compression: request.compression,
+      encryption,
+    },
+  };
+}
+
+// Hides the recipient public key of a stored request; the fingerprint
+// identifies it
+export function summarizeTemplate(
+  template: DownloadTemplate,
+): DownloadTemplateSummary {
+  const { options, ...request } = template;
+  return {
+    ...request,
+    file: options.file,
+    archive: options.archive,
+    compression: options.compression,
+    encryption: options.encryption && {
+      keyId: options.encryption.keyId,
+      fingerprint: options.encryption.fingerprint,
+    },
+  };
+}
+
+// Tag filters as given in query strings (`tag=key:value`, repeatable)
+export const tagFilterSchema = Joi.array()
+  .items(Joi.string().pattern(/^[a-zA-Z0-9_.-]{1,64}:.{0,256}$/))
+  .single()
+  .max(10);
+
+export function parseTagFilters(
+  tag: string[] | undefined,
+): Record<string, string> | undefined {
+  if (!tag) return undefined;
+
+  return Object.fromEntries(
+    tag.map((t) => {
+      const separator = t.indexOf(":");
+      return [t.slice(0, separator), t.slice(separator + 1)];
+    }),
+  );
+}
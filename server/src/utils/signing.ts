@@ -0,0 +1,38 @@
+import crypto from "crypto";
+
+// HMAC-SHA256 over the exact payload string, hex encoded
+export function signPayload(payload: string, secret: string): string {
+  return crypto.createHmac("sha256", secret).update(payload).digest("hex");
+}
+
+export function verifyPayload(
+  payload: string,
+  signature: string | undefined,
+  secret: string,
+): boolean {
+  const expected = Buffer.from(signPayload(payload, secret), "hex");
+  const actual = Buffer.from(signature || "", "hex");
+  return (
+    actual.length === expected.length &&
+    crypto.timingSafeEqual(actual, expected)
+  );
+}
+
+export function createNonce(): string {
+  return crypto.randomBytes(16).toString("hex");
+}
+
+// Parses `clientId=secret` pairs separated by commas
+export function parseSecrets(value: string | undefined): Map<string, string> {
+  const secrets = new Map<string, string>();
+  for (const entry of (value || "").split(",")) {
+    const separator = entry.indexOf("=");
+    if (separator > 0) {
+      secrets.set(
+        entry.slice(0, separator).trim(),
+        entry.slice(separator + 1).trim(),
+      );
+    }
+  }
+  return secrets;
+}
@@ -0,0 +1,52 @@
+import { Request, Response } from "express";
+
+export interface EventStream {
+  send(event: string, data: unknown): void;
+  close(): void;
+}
+
+/**
+ * Switches the response into a Server-Sent Events stream. A comment line is
+ * written every `keepAliveMs` so idle connections survive proxies;
+ * `onClose` runs once, whether the client disconnects or `close` is called.
+ */
+export function openEventStream(
+  req: Request,
+  res: Response,
+  onClose: () => void,
+  keepAliveMs: number = 15000,
+): EventStream {
+  res.status(200).set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
+
+  const keepAlive = setInterval(
+    () => res.write(": keep-alive\n\n"),
+    keepAliveMs,
+  );
+
+  let closed = false;
+  const cleanup = () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(keepAlive);
+    onClose();
+  };
+
+  req.on("close", cleanup);
+
+  return {
+    send(event: string, data: unknown) {
+      if (closed) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    close() {
+      cleanup();
+      res.end();
+    },
+  };
+}
@@ -0,0 +1,7 @@
+import Joi from "joi";
+
+export const clientIdSchema = Joi.string()
+  .pattern(/^[a-zA-Z0-9_-]+$/)
+  .required();
+
+export const downloadIdSchema = Joi.string().uuid().required();